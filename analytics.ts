@@ -0,0 +1,270 @@
+/**
+ * Wisdom analytics: success/failure rates, feedback, trends and failure
+ * reasons aggregated from listWisdom, for `maasv wisdom report` and the
+ * maasv.wisdom.report gateway method.
+ */
+
+import { paginate } from "./bundle.js";
+import type { MaasvClient } from "./client.js";
+import type { WisdomEntry } from "./types.js";
+
+export type TrendWindow = "day" | "week" | "month";
+
+export const TREND_WINDOWS: TrendWindow[] = ["day", "week", "month"];
+
+export interface ReportOptions {
+  since?: string;
+  until?: string;
+  actionType?: string;
+  window: TrendWindow;
+  /** Most recent trend windows to include. */
+  windows: number;
+}
+
+export interface GroupStats {
+  key: string;
+  total: number;
+  success: number;
+  failed: number;
+  partial: number;
+  /** No outcome recorded yet (or "pending" / "unknown"). */
+  open: number;
+  /** success / (success + failed + partial), null with nothing resolved. */
+  successRate: number | null;
+  failureRate: number | null;
+  avgFeedback: number | null;
+  rated: number;
+}
+
+export interface WisdomReport {
+  generatedAt: string;
+  since: string | null;
+  until: string | null;
+  overall: GroupStats;
+  byActionType: GroupStats[];
+  byTag: GroupStats[];
+  trend: Array<GroupStats & { start: string }>;
+  failureReasons: Array<{ reason: string; count: number; actionTypes: string[] }>;
+  missingOutcomes: Array<{ id: string; action_type: string; timestamp: string; reasoning: string }>;
+}
+
+const PAGE_SIZE = 200;
+const MAX_REASONS = 10;
+const MAX_MISSING = 50;
+const COLUMN_WIDTHS = [5, 4, 4, 4, 4, 7, 8];
+
+export async function buildWisdomReport(
+  client: MaasvClient,
+  opts: ReportOptions,
+): Promise<WisdomReport> {
+  const entries: WisdomEntry[] = [];
+  for await (const w of paginate((offset) =>
+    client.listWisdom({
+      action_type: opts.actionType,
+      since: opts.since,
+      until: opts.until,
+      limit: PAGE_SIZE,
+      offset,
+    }),
+  )) {
+    entries.push(w);
+  }
+  return aggregateWisdom(entries, opts);
+}
+
+export function aggregateWisdom(
+  entries: WisdomEntry[],
+  opts: ReportOptions,
+  now: Date = new Date(),
+): WisdomReport {
+  const byAction = new Map<string, WisdomEntry[]>();
+  const byTag = new Map<string, WisdomEntry[]>();
+  const byWindow = new Map<string, WisdomEntry[]>();
+  for (const w of entries) {
+    push(byAction, w.action_type, w);
+    for (const tag of w.tags ?? []) push(byTag, tag, w);
+    push(byWindow, windowStart(w.timestamp, opts.window), w);
+  }
+
+  const groups = (map: Map<string, WisdomEntry[]>) =>
+    [...map].map(([key, ws]) => stats(key, ws)).sort((a, b) => b.total - a.total || a.key.localeCompare(b.key));
+
+  // Consecutive windows ending at the latest, empty ones included, so gaps show
+  const trend: WisdomReport["trend"] = [];
+  const latest = opts.until && Date.parse(opts.until) < now.getTime() ? opts.until : now.toISOString();
+  let start = windowStart(latest, opts.window);
+  for (let i = 0; i < opts.windows; i++) {
+    trend.unshift({ ...stats(start, byWindow.get(start) ?? []), start });
+    start = previousWindow(start, opts.window);
+  }
+
+  const reasons = new Map<string, { count: number; actionTypes: Set<string> }>();
+  for (const w of entries) {
+    if (outcomeOf(w) !== "failed" || !w.outcome_details) continue;
+    const reason = normalizeReason(w.outcome_details);
+    const entry = reasons.get(reason) ?? { count: 0, actionTypes: new Set<string>() };
+    entry.count += 1;
+    entry.actionTypes.add(w.action_type);
+    reasons.set(reason, entry);
+  }
+
+  return {
+    generatedAt: now.toISOString(),
+    since: opts.since ?? null,
+    until: opts.until ?? null,
+    overall: stats("all", entries),
+    byActionType: groups(byAction),
+    byTag: groups(byTag),
+    trend,
+    failureReasons: [...reasons]
+      .map(([reason, r]) => ({ reason, count: r.count, actionTypes: [...r.actionTypes].sort() }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, MAX_REASONS),
+    missingOutcomes: entries
+      .filter((w) => outcomeOf(w) === "open")
+      .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp))
+      .slice(0, MAX_MISSING)
+      .map((w) => ({
+        id: w.id,
+        action_type: w.action_type,
+        timestamp: w.timestamp,
+        reasoning: snippet(w.reasoning, 80),
+      })),
+  };
+}
+
+export function formatWisdomReport(report: WisdomReport): string {
+  const range = report.since || report.until ? ` (${report.since ?? "…"} → ${report.until ?? "now"})` : "";
+  const lines = [`Wisdom report${range}: ${report.overall.total} entries`, ""];
+
+  lines.push("By action type:", ...statsTable(report.byActionType), "");
+  if (report.byTag.length) lines.push("By tag:", ...statsTable(report.byTag), "");
+  lines.push("Trend:", ...statsTable(report.trend.map((t) => ({ ...t, key: t.start }))), "");
+
+  if (report.failureReasons.length) {
+    lines.push("Most common failure reasons:");
+    for (const r of report.failureReasons) {
+      lines.push(`  ${String(r.count).padStart(4)}  ${r.reason}  (${r.actionTypes.join(", ")})`);
+    }
+    lines.push("");
+  }
+
+  if (report.missingOutcomes.length) {
+    const shown = report.missingOutcomes.length;
+    const of = report.overall.open > shown ? ` of ${report.overall.open}` : "";
+    lines.push(`Missing outcomes (${shown}${of}, oldest first):`);
+    for (const m of report.missingOutcomes) {
+      lines.push(`  ${m.id}  ${m.timestamp.slice(0, 10)}  ${m.action_type}: ${m.reasoning}`);
+    }
+  } else {
+    lines.push("No entries are missing outcomes.");
+  }
+  return lines.join("\n");
+}
+
+// --- Helpers ---
+
+function stats(key: string, entries: WisdomEntry[]): GroupStats {
+  const s: GroupStats = {
+    key,
+    total: entries.length,
+    success: 0,
+    failed: 0,
+    partial: 0,
+    open: 0,
+    successRate: null,
+    failureRate: null,
+    avgFeedback: null,
+    rated: 0,
+  };
+  let feedbackSum = 0;
+  for (const w of entries) {
+    s[outcomeOf(w)] += 1;
+    if (w.feedback_score !== null) {
+      s.rated += 1;
+      feedbackSum += w.feedback_score;
+    }
+  }
+  const resolved = s.success + s.failed + s.partial;
+  if (resolved) {
+    s.successRate = s.success / resolved;
+    s.failureRate = s.failed / resolved;
+  }
+  if (s.rated) s.avgFeedback = feedbackSum / s.rated;
+  return s;
+}
+
+function outcomeOf(w: WisdomEntry): "success" | "failed" | "partial" | "open" {
+  const outcome = (w.outcome ?? "").toLowerCase();
+  if (outcome === "success" || outcome === "failed" || outcome === "partial") return outcome;
+  return "open";
+}
+
+function statsTable(rows: GroupStats[]): string[] {
+  if (rows.length === 0) return ["  (none)"];
+  const width = Math.min(32, Math.max(6, ...rows.map((r) => r.key.length)));
+  const line = (key: string, cells: string[]) =>
+    `  ${key.padEnd(width)}  ${cells.map((c, i) => c.padStart(COLUMN_WIDTHS[i])).join("  ")}`;
+  return [
+    line("", ["total", "ok", "fail", "part", "open", "success", "feedback"]),
+    ...rows.map((r) =>
+      line(snippet(r.key, width), [
+        String(r.total),
+        String(r.success),
+        String(r.failed),
+        String(r.partial),
+        String(r.open),
+        percent(r.successRate),
+        r.avgFeedback === null ? "-" : r.avgFeedback.toFixed(1),
+      ]),
+    ),
+  ];
+}
+
+/** Group failure details that differ only in numbers, IDs, paths or quoting. */
+function normalizeReason(details: string): string {
+  const firstSentence = details.split(/(?<=[.!?])\s|\n/)[0];
+  return snippet(
+    firstSentence
+      .toLowerCase()
+      .replace(/(["'`]).*?\1/g, "…")
+      .replace(/(?:\/[\w.-]+)+/g, "<path>")
+      .replace(/\b[0-9a-f]{8,}\b/g, "<id>")
+      .replace(/\d+(\.\d+)?/g, "N")
+      .replace(/\s+/g, " ")
+      .trim(),
+    100,
+  );
+}
+
+function windowStart(timestamp: string, window: TrendWindow): string {
+  const d = new Date(timestamp);
+  if (Number.isNaN(d.getTime())) return "unknown";
+  d.setUTCHours(0, 0, 0, 0);
+  if (window === "week") d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  if (window === "month") d.setUTCDate(1);
+  return d.toISOString().slice(0, 10);
+}
+
+function previousWindow(start: string, window: TrendWindow): string {
+  const d = new Date(`${start}T00:00:00Z`);
+  if (window === "day") d.setUTCDate(d.getUTCDate() - 1);
+  if (window === "week") d.setUTCDate(d.getUTCDate() - 7);
+  if (window === "month") d.setUTCMonth(d.getUTCMonth() - 1);
+  return d.toISOString().slice(0, 10);
+}
+
+function push<K, V>(map: Map<K, V[]>, key: K, value: V): void {
+  const list = map.get(key);
+  if (list) list.push(value);
+  else map.set(key, [value]);
+}
+
+function percent(rate: number | null): string {
+  return rate === null ? "-" : `${Math.round(rate * 100)}%`;
+}
+
+function snippet(s: string, max: number): string {
+  const flat = s.replace(/\s+/g, " ").trim();
+  return flat.length > max ? `${flat.slice(0, max - 1)}…` : flat;
+}
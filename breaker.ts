@@ -0,0 +1,99 @@
+/**
+ * Circuit breaker for maasv-server calls.
+ *
+ * closed    — requests flow normally; consecutive failures are counted.
+ * open      — requests fail fast until the cooldown elapses.
+ * half_open — one health probe is allowed through; success closes the
+ *             circuit, failure re-opens it for another cooldown.
+ */
+
+export type BreakerState = "closed" | "open" | "half_open";
+
+export interface BreakerStatus {
+  state: BreakerState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  nextProbeAt: string | null;
+  lastError: string | null;
+}
+
+export class CircuitBreaker {
+  private state: BreakerState = "closed";
+  private failures = 0;
+  private openedAt: number | null = null;
+  private lastError: string | null = null;
+  private probe: Promise<boolean> | null = null;
+
+  constructor(
+    private threshold: number,
+    private cooldownMs: number,
+  ) {}
+
+  /**
+   * Resolve to true if a request may proceed. While open, returns false
+   * until the cooldown has elapsed, then runs a single shared probe.
+   */
+  async allow(probe: () => Promise<boolean>): Promise<boolean> {
+    if (this.state === "closed") return true;
+
+    if (this.state === "open") {
+      if (Date.now() - (this.openedAt ?? 0) < this.cooldownMs) return false;
+      this.state = "half_open";
+    }
+
+    // half_open: coalesce concurrent callers onto one probe
+    if (!this.probe) {
+      this.probe = probe()
+        .catch((err: Error) => {
+          this.lastError = `health probe failed: ${err.message}`;
+          return false;
+        })
+        .then((ok) => {
+          if (ok) {
+            this.recordSuccess();
+          } else {
+            this.trip(this.lastError ?? "health probe failed");
+          }
+          return ok;
+        })
+        .finally(() => {
+          this.probe = null;
+        });
+    }
+    return this.probe;
+  }
+
+  recordSuccess(): void {
+    this.state = "closed";
+    this.failures = 0;
+    this.openedAt = null;
+  }
+
+  recordFailure(message: string): void {
+    this.lastError = message;
+    this.failures += 1;
+    if (this.state === "half_open" || this.failures >= this.threshold) {
+      this.trip(message);
+    }
+  }
+
+  status(): BreakerStatus {
+    const nextProbe =
+      this.state === "open" && this.openedAt !== null
+        ? new Date(this.openedAt + this.cooldownMs).toISOString()
+        : null;
+    return {
+      state: this.state,
+      consecutiveFailures: this.failures,
+      openedAt: this.openedAt !== null ? new Date(this.openedAt).toISOString() : null,
+      nextProbeAt: nextProbe,
+      lastError: this.lastError,
+    };
+  }
+
+  private trip(message: string): void {
+    this.state = "open";
+    this.openedAt = Date.now();
+    this.lastError = message;
+  }
+}
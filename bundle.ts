@@ -0,0 +1,552 @@
+/**
+ * Export and import of memories, entities, relationships and wisdom as a
+ * versioned JSONL bundle.
+ *
+ * Line 1 is a header ({ type: "header", format, version, ... }); every other
+ * line is one record: { type: "memory" | "entity" | "relationship" | "wisdom",
+ * data }. Entities are written before relationships so an import can remap
+ * entity IDs before it needs them.
+ */
+
+import { once } from "node:events";
+import { createInterface } from "node:readline";
+import type { Readable, Writable } from "node:stream";
+import { MaasvError, type MaasvClient } from "./client.js";
+import type { Entity, Memory, Relationship, RelationshipRequest, WisdomEntry } from "./types.js";
+
+export const BUNDLE_FORMAT = "maasv-bundle";
+export const BUNDLE_VERSION = 1;
+
+const PAGE_SIZE = 200;
+
+export type RecordType = "memory" | "entity" | "relationship" | "wisdom";
+
+export const RECORD_TYPES: RecordType[] = ["memory", "entity", "relationship", "wisdom"];
+
+export interface BundleHeader {
+  type: "header";
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exported_at: string;
+  namespace: string | null;
+  filters: ExportFilters;
+}
+
+export type BundleRecord =
+  | { type: "memory"; data: Memory }
+  | { type: "entity"; data: Entity }
+  | { type: "relationship"; data: Relationship }
+  | { type: "wisdom"; data: WisdomEntry };
+
+export interface ExportFilters {
+  types?: RecordType[];
+  categories?: string[];
+  /** ISO date bounds applied to memory created_at, relationship valid_from and wisdom timestamp. */
+  since?: string;
+  until?: string;
+}
+
+export type ConflictPolicy = "skip" | "overwrite" | "supersede";
+
+export interface ImportOptions {
+  onConflict: ConflictPolicy;
+  dryRun: boolean;
+}
+
+export type TypeCounts = Record<RecordType, number>;
+
+export interface ImportSummary {
+  created: TypeCounts;
+  skipped: TypeCounts;
+  overwritten: TypeCounts;
+  superseded: TypeCounts;
+  failed: Array<{ type: RecordType; id: string; error: string }>;
+  /** Old ID → new ID for every record that was (or would be) written. */
+  idMap: Record<string, string>;
+}
+
+export async function exportBundle(
+  client: MaasvClient,
+  out: Writable,
+  filters: ExportFilters = {},
+): Promise<TypeCounts> {
+  const types = filters.types ?? RECORD_TYPES;
+  const counts = emptyCounts();
+
+  const header: BundleHeader = {
+    type: "header",
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exported_at: new Date().toISOString(),
+    namespace: client.currentNamespace ?? null,
+    filters,
+  };
+  await writeLine(out, header);
+
+  const emit = async (record: BundleRecord) => {
+    await writeLine(out, record);
+    counts[record.type] += 1;
+  };
+
+  if (types.includes("memory")) {
+    for (const category of filters.categories ?? [undefined]) {
+      for await (const m of paginate((offset) =>
+        client.listMemories({
+          category,
+          created_after: filters.since,
+          created_before: filters.until,
+          sort: "recency",
+          limit: PAGE_SIZE,
+          offset,
+        }),
+      )) {
+        await emit({ type: "memory", data: m });
+      }
+    }
+  }
+
+  if (types.includes("entity")) {
+    for await (const e of paginate((offset) =>
+      client.listEntities({ limit: PAGE_SIZE, offset }),
+    )) {
+      await emit({ type: "entity", data: e });
+    }
+  }
+
+  if (types.includes("relationship")) {
+    for await (const r of paginate((offset) =>
+      client.listRelationships({
+        include_ended: true,
+        valid_from_after: filters.since,
+        valid_from_before: filters.until,
+        limit: PAGE_SIZE,
+        offset,
+      }),
+    )) {
+      await emit({ type: "relationship", data: r });
+    }
+  }
+
+  if (types.includes("wisdom")) {
+    for await (const w of paginate((offset) =>
+      client.listWisdom({
+        since: filters.since,
+        until: filters.until,
+        limit: PAGE_SIZE,
+        offset,
+      }),
+    )) {
+      await emit({ type: "wisdom", data: w });
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Import a bundle. Memories, relationships and wisdom entries that already
+ * exist follow the conflict policy:
+ * - memories match on ID, on an earlier import of the same ID
+ *   (metadata.imported_from), or on identical content
+ * - relationships match on subject, predicate and object
+ * - wisdom entries match on action type and reasoning
+ * Entities resolve through findOrCreateEntity so they merge naturally, and
+ * relationships are re-pointed at the remapped entities. With `dryRun`, only
+ * reads are issued and the summary says what would happen.
+ */
+export async function importBundle(
+  client: MaasvClient,
+  input: Readable,
+  opts: ImportOptions,
+): Promise<ImportSummary> {
+  const summary: ImportSummary = {
+    created: emptyCounts(),
+    skipped: emptyCounts(),
+    overwritten: emptyCounts(),
+    superseded: emptyCounts(),
+    failed: [],
+    idMap: {},
+  };
+  const existing = new ExistingRecords(client);
+
+  const lines = createInterface({ input, crlfDelay: Infinity });
+  let sawHeader = false;
+  let lineNo = 0;
+
+  for await (const line of lines) {
+    lineNo += 1;
+    if (!line.trim()) continue;
+    let parsed: BundleHeader | BundleRecord;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      throw new Error(`Malformed bundle: line ${lineNo} is not valid JSON`);
+    }
+
+    if (!sawHeader) {
+      assertHeader(parsed);
+      sawHeader = true;
+      continue;
+    }
+
+    const record = parsed as BundleRecord;
+    try {
+      switch (record.type) {
+        case "memory":
+          await importMemory(client, record.data, opts, summary);
+          break;
+        case "entity":
+          await importEntity(client, record.data, opts, summary);
+          break;
+        case "relationship":
+          await importRelationship(client, record.data, opts, summary, existing);
+          break;
+        case "wisdom":
+          await importWisdom(client, record.data, opts, summary, existing);
+          break;
+      }
+    } catch (err) {
+      summary.failed.push({
+        type: record.type,
+        id: record.data.id,
+        error: (err as Error).message,
+      });
+    }
+  }
+
+  if (!sawHeader) throw new Error("Empty bundle: missing header line");
+  return summary;
+}
+
+export function formatImportSummary(summary: ImportSummary, dryRun: boolean): string {
+  const verb = dryRun ? "Would import" : "Imported";
+  const lines = [`${verb}:`];
+  for (const type of RECORD_TYPES) {
+    let line = `  ${type.padEnd(13)} ${summary.created[type]} new, ${summary.skipped[type]} skipped`;
+    if (summary.overwritten[type]) line += `, ${summary.overwritten[type]} overwritten`;
+    if (summary.superseded[type]) line += `, ${summary.superseded[type]} superseded`;
+    lines.push(line);
+  }
+  for (const f of summary.failed) {
+    lines.push(`  failed ${f.type} ${f.id}: ${f.error}`);
+  }
+  return lines.join("\n");
+}
+
+// --- Record importers ---
+
+async function importMemory(
+  client: MaasvClient,
+  m: Memory,
+  opts: ImportOptions,
+  summary: ImportSummary,
+): Promise<void> {
+  const existing = await findMemory(client, m);
+
+  if (existing) {
+    if (opts.onConflict === "skip" || (opts.onConflict === "supersede" && existing.content === m.content)) {
+      summary.skipped.memory += 1;
+      summary.idMap[m.id] = existing.id;
+      return;
+    }
+    if (opts.onConflict === "supersede") {
+      const newId = opts.dryRun
+        ? existing.id
+        : (await client.supersedeMemory(existing.id, m.content)).memory_id;
+      summary.superseded.memory += 1;
+      summary.idMap[m.id] = newId;
+      return;
+    }
+    // overwrite: replace the existing record outright
+    if (!opts.dryRun) await client.deleteMemory(existing.id);
+    summary.overwritten.memory += 1;
+  }
+
+  const newId = opts.dryRun
+    ? m.id
+    : (
+        await client.storeMemory({
+          content: m.content,
+          category: m.category,
+          subject: m.subject ?? undefined,
+          source: m.source,
+          confidence: m.confidence,
+          // An earlier import's ID, if this memory was itself imported
+          metadata: { ...m.metadata, imported_from: m.metadata?.imported_from ?? m.id },
+        })
+      ).memory_id;
+  if (!existing) summary.created.memory += 1;
+  summary.idMap[m.id] = newId;
+}
+
+/**
+ * Entities are always merged, whatever the conflict policy: the server has
+ * no call to replace an entity, and relationships on either side should end
+ * up on one node. An existing entity of the same type and canonical name
+ * counts as skipped, in dry runs and real imports alike.
+ */
+async function importEntity(
+  client: MaasvClient,
+  e: Entity,
+  opts: ImportOptions,
+  summary: ImportSummary,
+): Promise<void> {
+  const { results } = await client.searchEntities(e.name, e.entity_type, 5);
+  const match = results.find((r) => r.entity_type === e.entity_type && r.canonical_name === e.canonical_name);
+  if (match) {
+    summary.skipped.entity += 1;
+    summary.idMap[e.id] = match.id;
+    return;
+  }
+  const entity = opts.dryRun
+    ? e
+    : await client.findOrCreateEntity(e.name, e.entity_type, e.metadata ?? undefined);
+  summary.created.entity += 1;
+  summary.idMap[e.id] = entity.id;
+}
+
+async function importRelationship(
+  client: MaasvClient,
+  r: Relationship,
+  opts: ImportOptions,
+  summary: ImportSummary,
+  existingRecords: ExistingRecords,
+): Promise<void> {
+  const req: RelationshipRequest = {
+    subject_id: summary.idMap[r.subject_id] ?? r.subject_id,
+    predicate: r.predicate,
+    object_id: r.object_id ? (summary.idMap[r.object_id] ?? r.object_id) : undefined,
+    object_value: r.object_value ?? undefined,
+    confidence: r.confidence,
+    source: "import",
+    valid_from: r.valid_from,
+    valid_to: r.valid_to,
+  };
+  const existing = await existingRecords.relationship(req);
+
+  if (existing) {
+    const unchanged = existing.valid_from === r.valid_from && existing.valid_to === r.valid_to;
+    if (opts.onConflict === "skip" || (opts.onConflict === "supersede" && unchanged)) {
+      summary.skipped.relationship += 1;
+      summary.idMap[r.id] = existing.id;
+      return;
+    }
+    if (!opts.dryRun) {
+      if (opts.onConflict === "supersede") {
+        // Close the current version where the imported one starts, keeping the history
+        if (existing.valid_to === null) await client.endRelationship(existing.id, r.valid_from);
+      } else {
+        await client.deleteRelationship(existing.id);
+      }
+    }
+    summary[opts.onConflict === "supersede" ? "superseded" : "overwritten"].relationship += 1;
+  } else {
+    summary.created.relationship += 1;
+  }
+
+  const newId = opts.dryRun ? r.id : (await client.addRelationship(req)).relationship_id;
+  existingRecords.addRelationship(req, newId);
+  summary.idMap[r.id] = newId;
+}
+
+async function importWisdom(
+  client: MaasvClient,
+  w: WisdomEntry,
+  opts: ImportOptions,
+  summary: ImportSummary,
+  existingRecords: ExistingRecords,
+): Promise<void> {
+  const existing = await existingRecords.wisdom(w);
+
+  if (existing) {
+    const outcomeChanged = !!w.outcome && w.outcome !== "pending" && (w.outcome !== existing.outcome || w.outcome_details !== existing.outcome_details);
+    const feedbackChanged = w.feedback_score !== null && (w.feedback_score !== existing.feedback_score || w.feedback_notes !== existing.feedback_notes);
+    if (opts.onConflict === "skip" || (!outcomeChanged && !feedbackChanged)) {
+      summary.skipped.wisdom += 1;
+      summary.idMap[w.id] = existing.id;
+      return;
+    }
+    // Wisdom can't be deleted or versioned; overwrite and supersede both update the entry in place
+    if (!opts.dryRun) {
+      if (outcomeChanged) await client.recordOutcome(existing.id, w.outcome, w.outcome_details ?? undefined);
+      if (feedbackChanged) await client.addFeedback(existing.id, w.feedback_score!, w.feedback_notes ?? undefined);
+    }
+    summary[opts.onConflict === "supersede" ? "superseded" : "overwritten"].wisdom += 1;
+    summary.idMap[w.id] = existing.id;
+    return;
+  }
+
+  if (opts.dryRun) {
+    summary.created.wisdom += 1;
+    summary.idMap[w.id] = w.id;
+    return;
+  }
+  const { wisdom_id } = await client.logReasoning({
+    action_type: w.action_type,
+    reasoning: w.reasoning,
+    action_data: w.action_data ?? undefined,
+    trigger: w.trigger ?? undefined,
+    context: w.context ?? undefined,
+    tags: w.tags ?? undefined,
+    timestamp: w.timestamp,
+  });
+  if (w.outcome && w.outcome !== "pending") {
+    await client.recordOutcome(wisdom_id, w.outcome, w.outcome_details ?? undefined);
+  }
+  if (w.feedback_score !== null) {
+    await client.addFeedback(wisdom_id, w.feedback_score, w.feedback_notes ?? undefined);
+  }
+  existingRecords.addWisdom({ ...w, id: wisdom_id });
+  summary.created.wisdom += 1;
+  summary.idMap[w.id] = wisdom_id;
+}
+
+/**
+ * The target's relationships (per subject) and wisdom (per action type),
+ * loaded on first use and kept up to date as the import writes, so
+ * duplicates within one bundle are caught too.
+ */
+class ExistingRecords {
+  private relationships = new Map<string, Relationship[]>();
+  private wisdomByAction = new Map<string, WisdomEntry[]>();
+
+  constructor(private client: MaasvClient) {}
+
+  async relationship(req: RelationshipRequest): Promise<Relationship | null> {
+    const candidates = (await this.relationshipsOf(req.subject_id)).filter(
+      (r) =>
+        r.predicate === req.predicate &&
+        (r.object_id ?? null) === (req.object_id ?? null) &&
+        (req.object_id ? true : (r.object_value ?? null) === (req.object_value ?? null)),
+    );
+    // Prefer the same version of the fact, then the current one
+    return (
+      candidates.find((r) => r.valid_from === req.valid_from) ??
+      candidates.find((r) => r.valid_to === null) ??
+      candidates[0] ??
+      null
+    );
+  }
+
+  addRelationship(req: RelationshipRequest, id: string): void {
+    this.relationships.get(req.subject_id)?.push({
+      id,
+      subject_id: req.subject_id,
+      predicate: req.predicate,
+      object_id: req.object_id ?? null,
+      object_value: req.object_value ?? null,
+      valid_from: req.valid_from ?? new Date().toISOString(),
+      valid_to: req.valid_to ?? null,
+      confidence: req.confidence ?? 1,
+    });
+  }
+
+  async wisdom(w: WisdomEntry): Promise<WisdomEntry | null> {
+    const entries = await this.wisdomOf(w.action_type);
+    return entries.find((e) => e.reasoning.trim() === w.reasoning.trim()) ?? null;
+  }
+
+  addWisdom(w: WisdomEntry): void {
+    this.wisdomByAction.get(w.action_type)?.push(w);
+  }
+
+  private async relationshipsOf(subjectId: string): Promise<Relationship[]> {
+    let list = this.relationships.get(subjectId);
+    if (!list) {
+      list = [];
+      for await (const r of paginate((offset) =>
+        this.client.listRelationships({ subject_id: subjectId, include_ended: true, limit: PAGE_SIZE, offset }),
+      )) {
+        list.push(r);
+      }
+      this.relationships.set(subjectId, list);
+    }
+    return list;
+  }
+
+  private async wisdomOf(actionType: string): Promise<WisdomEntry[]> {
+    let list = this.wisdomByAction.get(actionType);
+    if (!list) {
+      list = [];
+      for await (const w of paginate((offset) =>
+        this.client.listWisdom({ action_type: actionType, limit: PAGE_SIZE, offset }),
+      )) {
+        list.push(w);
+      }
+      this.wisdomByAction.set(actionType, list);
+    }
+    return list;
+  }
+}
+
+// --- Helpers ---
+
+/** Yield every result of a paginated list endpoint. */
+export async function* paginate<T>(
+  fetchPage: (offset: number) => Promise<{ results: T[]; total: number }>,
+): AsyncGenerator<T> {
+  for (let offset = 0; ; ) {
+    const { results, total } = await fetchPage(offset);
+    yield* results;
+    offset += results.length;
+    if (results.length === 0 || offset >= total) return;
+  }
+}
+
+/**
+ * The target's copy of a bundle memory: same ID, imported from the same ID
+ * earlier, or identical content (imports into another server or namespace
+ * get new IDs).
+ */
+async function findMemory(client: MaasvClient, m: Memory): Promise<Memory | null> {
+  const byId = await getIfExists(() => client.getMemory(m.id));
+  if (byId && !byId.superseded_by) return byId;
+
+  const origin = m.metadata?.imported_from ?? m.id;
+  const content = normalizeContent(m.content);
+  const { results: found } = await client.searchMemories({ query: m.content, limit: 10 });
+  // Scoped searches include the shared namespace; only the target namespace counts
+  const results = found.filter(
+    (r) => r.metadata?.namespace === undefined || r.metadata.namespace === client.currentNamespace,
+  );
+  return (
+    results.find((r) => r.metadata?.imported_from === origin || r.id === origin) ??
+    results.find((r) => normalizeContent(r.content) === content) ??
+    null
+  );
+}
+
+function normalizeContent(content: string): string {
+  return content.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+async function getIfExists<T>(fetch: () => Promise<T>): Promise<T | null> {
+  try {
+    return await fetch();
+  } catch (err) {
+    if (err instanceof MaasvError && err.status === 404) return null;
+    throw err;
+  }
+}
+
+async function writeLine(out: Writable, value: unknown): Promise<void> {
+  if (!out.write(`${JSON.stringify(value)}\n`)) {
+    await once(out, "drain");
+  }
+}
+
+function assertHeader(value: unknown): asserts value is BundleHeader {
+  const header = value as Partial<BundleHeader>;
+  if (header?.type !== "header" || header.format !== BUNDLE_FORMAT) {
+    throw new Error(`Not a ${BUNDLE_FORMAT} file (missing header line)`);
+  }
+  if (typeof header.version !== "number" || header.version > BUNDLE_VERSION) {
+    throw new Error(
+      `Unsupported bundle version ${header.version}; this plugin reads up to v${BUNDLE_VERSION}`,
+    );
+  }
+}
+
+function emptyCounts(): TypeCounts {
+  return { memory: 0, entity: 0, relationship: 0, wisdom: 0 };
+}
@@ -0,0 +1,205 @@
+/**
+ * Short-lived LRU cache for recall reads (getContext, searchMemories,
+ * getEntityProfile).
+ *
+ * Keys are the method, read namespaces and parameters with the query
+ * normalized, so "What's my schedule?" and "what's my  schedule" share an
+ * entry. Concurrent identical requests share one in-flight call. Any write
+ * through the client clears the cache; a read that was in flight when the
+ * write happened is returned to its callers but not stored.
+ *
+ * Hit counters are flushed (throttled) to a stats file in the state dir so
+ * `openclaw maasv stats`, which runs in another process, can show them.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { writeFileAtomic } from "./state.js";
+
+export type CachedMethod = "getContext" | "searchMemories" | "getEntityProfile";
+
+export const CACHED_METHODS: CachedMethod[] = ["getContext", "searchMemories", "getEntityProfile"];
+
+export interface MethodStats {
+  hits: number;
+  misses: number;
+  /** Callers that joined an identical request already in flight. */
+  coalesced: number;
+}
+
+export interface CacheStatsFile {
+  since: string;
+  updatedAt: string;
+  methods: Record<CachedMethod, MethodStats>;
+}
+
+interface Entry {
+  value: unknown;
+  expiresAt: number;
+}
+
+// Counters reach disk at most this often
+const STATS_FLUSH_MS = 5_000;
+
+export class RecallCache {
+  private entries = new Map<string, Entry>();
+  private inFlight = new Map<string, Promise<unknown>>();
+  /** Bumped by invalidate() so reads that started earlier aren't stored. */
+  private generation = 0;
+  private totals = emptyStats();
+  /** Counts not yet written to the stats file. */
+  private unsaved = emptyStats();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  readonly statsPath: string | null;
+
+  constructor(
+    private ttlMs: number,
+    private maxEntries: number,
+    stateDir?: string,
+  ) {
+    this.statsPath = stateDir ? join(stateDir, "recall-cache-stats.json") : null;
+  }
+
+  async get<T>(method: CachedMethod, key: string, load: () => Promise<T>): Promise<T> {
+    const fullKey = `${method}\0${key}`;
+    const entry = this.entries.get(fullKey);
+    if (entry && entry.expiresAt > Date.now()) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(fullKey);
+      this.entries.set(fullKey, entry);
+      this.count(method, "hits");
+      return entry.value as T;
+    }
+    if (entry) this.entries.delete(fullKey);
+
+    const pending = this.inFlight.get(fullKey);
+    if (pending) {
+      this.count(method, "coalesced");
+      return pending as Promise<T>;
+    }
+
+    this.count(method, "misses");
+    const generation = this.generation;
+    const settle = () => {
+      // An invalidate() may have replaced this call with a newer one
+      if (this.inFlight.get(fullKey) === promise) this.inFlight.delete(fullKey);
+    };
+    const promise: Promise<T> = load().then(
+      (value) => {
+        settle();
+        if (generation === this.generation) this.store(fullKey, value);
+        return value;
+      },
+      (err) => {
+        settle();
+        throw err;
+      },
+    );
+    this.inFlight.set(fullKey, promise);
+    return promise;
+  }
+
+  /** Drop every entry; called after any write. */
+  invalidate(): void {
+    this.generation += 1;
+    this.entries.clear();
+    this.inFlight.clear();
+  }
+
+  /** Counters for this process since it started. */
+  stats(): Record<CachedMethod, MethodStats> {
+    return structuredClone(this.totals);
+  }
+
+  /** Write pending counters to the stats file now. */
+  flushStats(): void {
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+    if (!this.statsPath) return;
+    const delta = this.unsaved;
+    this.unsaved = emptyStats();
+    if (CACHED_METHODS.every((m) => total(delta[m]) === 0)) return;
+
+    const now = new Date().toISOString();
+    const file = readCacheStats(this.statsPath) ?? { since: now, updatedAt: now, methods: emptyStats() };
+    for (const m of CACHED_METHODS) {
+      const saved = { ...emptyStats()[m], ...file.methods[m] };
+      file.methods[m] = {
+        hits: saved.hits + delta[m].hits,
+        misses: saved.misses + delta[m].misses,
+        coalesced: saved.coalesced + delta[m].coalesced,
+      };
+    }
+    file.updatedAt = now;
+    try {
+      writeFileAtomic(this.statsPath, JSON.stringify(file, null, 2));
+    } catch {
+      // Stats are best-effort; never fail a read over them
+    }
+  }
+
+  private store(key: string, value: unknown): void {
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      // Map iteration order is insertion order: the first key is least recently used
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  private count(method: CachedMethod, field: keyof MethodStats): void {
+    this.totals[method][field] += 1;
+    this.unsaved[method][field] += 1;
+    if (this.statsPath && !this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flushStats(), STATS_FLUSH_MS);
+      this.flushTimer.unref?.();
+    }
+  }
+}
+
+/** Lowercase, collapse whitespace and drop trailing punctuation. */
+export function normalizeQuery(query: string): string {
+  return query.toLowerCase().replace(/\s+/g, " ").trim().replace(/[\s?!.,;:]+$/, "");
+}
+
+/** JSON with sorted keys and undefined fields dropped, for use as a cache key. */
+export function cacheKey(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.keys(v).sort().map((k) => [k, v[k]]))
+      : v,
+  );
+}
+
+export function readCacheStats(path: string): CacheStatsFile | null {
+  if (!existsSync(path)) return null;
+  try {
+    return JSON.parse(readFileSync(path, "utf8")) as CacheStatsFile;
+  } catch {
+    return null;
+  }
+}
+
+/** "getContext 62% (31/50, 4 coalesced)" per method. */
+export function formatCacheStats(methods: Partial<Record<CachedMethod, MethodStats>>): string {
+  return CACHED_METHODS.map((m) => {
+    const s = methods[m] ?? { hits: 0, misses: 0, coalesced: 0 };
+    const served = s.hits + s.coalesced;
+    const calls = total(s);
+    const rate = calls ? `${Math.round((served / calls) * 100)}%` : "-";
+    return `  ${m.padEnd(17)} ${rate.padStart(4)} (${served}/${calls} served from cache, ${s.coalesced} coalesced)`;
+  }).join("\n");
+}
+
+// --- Helpers ---
+
+function emptyStats(): Record<CachedMethod, MethodStats> {
+  return {
+    getContext: { hits: 0, misses: 0, coalesced: 0 },
+    searchMemories: { hits: 0, misses: 0, coalesced: 0 },
+    getEntityProfile: { hits: 0, misses: 0, coalesced: 0 },
+  };
+}
+
+function total(s: MethodStats): number {
+  return s.hits + s.misses + s.coalesced;
+}
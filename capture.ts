@@ -0,0 +1,213 @@
+/**
+ * Incremental auto-capture.
+ *
+ * agent_end hands us the whole transcript every time. To avoid re-extracting
+ * the same early turns on every run, each session keeps a high-water mark —
+ * the number of turns already sent plus a hash of the last one — persisted
+ * in the state dir. Only newer turns are sent, preceded by a small overlap
+ * window for context, split into token-bounded chunks.
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { writeFileAtomic } from "./state.js";
+import type { TokenCounter } from "./tokens.js";
+
+export interface Turn {
+  role: "user" | "assistant";
+  text: string;
+}
+
+export interface CaptureCursor {
+  /** Number of turns already captured. */
+  index: number;
+  /** Hash of the last captured turn, used to re-align after compaction. */
+  hash: string;
+  updatedAt: string;
+}
+
+export interface CapturePlan {
+  /** Turns not yet captured. */
+  fresh: Turn[];
+  /** Already-captured turns included for context. */
+  overlap: Turn[];
+  /** Cursor to persist once the fresh turns are safely sent or queued. */
+  next: CaptureCursor;
+}
+
+export interface CaptureChunk {
+  text: string;
+  /**
+   * Cursor past the last turn that ends in this chunk, to persist once it is
+   * sent; null when the chunk holds only part of a turn split across chunks.
+   */
+  next: CaptureCursor | null;
+}
+
+const MAX_SESSIONS = 500;
+
+export class CaptureState {
+  readonly path: string;
+
+  constructor(stateDir: string) {
+    this.path = join(stateDir, "capture-state.json");
+  }
+
+  get(sessionKey: string): CaptureCursor | null {
+    return this.load()[sessionKey] ?? null;
+  }
+
+  set(sessionKey: string, cursor: CaptureCursor): void {
+    const sessions = this.load();
+    sessions[sessionKey] = cursor;
+
+    // Forget the least recently captured sessions past the cap
+    const keys = Object.keys(sessions);
+    if (keys.length > MAX_SESSIONS) {
+      keys
+        .sort((a, b) => sessions[a].updatedAt.localeCompare(sessions[b].updatedAt))
+        .slice(0, keys.length - MAX_SESSIONS)
+        .forEach((k) => delete sessions[k]);
+    }
+    writeFileAtomic(this.path, JSON.stringify({ sessions }, null, 2));
+  }
+
+  private load(): Record<string, CaptureCursor> {
+    if (!existsSync(this.path)) return {};
+    try {
+      const data = JSON.parse(readFileSync(this.path, "utf8"));
+      return data.sessions ?? {};
+    } catch {
+      return {};
+    }
+  }
+}
+
+/**
+ * Work out which turns are new since `cursor`. If the turn at the cursor no
+ * longer matches (e.g. the transcript was compacted), look for the last
+ * captured turn elsewhere, nearest the cursor first: short turns like "ok"
+ * repeat, and an earlier copy would re-send turns that were already captured.
+ * Failing that, treat the whole transcript as new.
+ */
+export function planCapture(
+  turns: Turn[],
+  cursor: CaptureCursor | null,
+  overlapTurns: number,
+): CapturePlan {
+  let start = 0;
+  if (cursor && cursor.index > 0) {
+    if (cursor.index <= turns.length && hashTurn(turns[cursor.index - 1]) === cursor.hash) {
+      start = cursor.index;
+    } else {
+      const found = findNearest(turns, cursor.hash, cursor.index - 1);
+      start = found >= 0 ? found + 1 : 0;
+    }
+  }
+
+  const last = turns[turns.length - 1];
+  return {
+    fresh: turns.slice(start),
+    overlap: turns.slice(Math.max(0, start - overlapTurns), start),
+    next: {
+      index: turns.length,
+      hash: last ? hashTurn(last) : "",
+      updatedAt: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * Split turns into chunks of at most `maxTokens`. Overlap turns lead the
+ * first chunk; a single turn larger than the budget is split on line
+ * boundaries. Each chunk carries the cursor to save once it is sent, so a
+ * failure part-way through doesn't re-send the chunks before it.
+ */
+export function chunkTurns(
+  plan: CapturePlan,
+  maxTokens: number,
+  counter: TokenCounter,
+): CaptureChunk[] {
+  const chunks: CaptureChunk[] = [];
+  let current: string[] = [];
+  let next: CaptureCursor | null = null;
+  let used = 0;
+
+  const push = (part: string) => {
+    const cost = counter.count(part) + 2;
+    if (used + cost > maxTokens && current.length > 0) {
+      chunks.push({ text: current.join("\n\n"), next });
+      current = [];
+      next = null;
+      used = 0;
+    }
+    current.push(part);
+    used += cost;
+  };
+
+  if (plan.overlap.length > 0) {
+    push(`[earlier context]\n${formatTurns(plan.overlap)}\n[new]`);
+  }
+  const start = plan.next.index - plan.fresh.length;
+  for (const [i, turn] of plan.fresh.entries()) {
+    for (const piece of splitText(`${turn.role}: ${turn.text}`, maxTokens, counter)) {
+      push(piece);
+    }
+    next = { index: start + i + 1, hash: hashTurn(turn), updatedAt: plan.next.updatedAt };
+  }
+  if (current.length > 0) chunks.push({ text: current.join("\n\n"), next });
+  return chunks;
+}
+
+/** A short topic label: the first line of the first new user turn. */
+export function deriveTopic(turns: Turn[]): string {
+  const first = turns.find((t) => t.role === "user" && t.text.trim()) ?? turns[0];
+  if (!first) return "";
+  const line = first.text.trim().split("\n")[0].replace(/\s+/g, " ");
+  return line.length > 80 ? `${line.slice(0, 77)}...` : line;
+}
+
+export function formatTurns(turns: Turn[]): string {
+  return turns.map((t) => `${t.role}: ${t.text}`).join("\n\n");
+}
+
+function splitText(text: string, maxTokens: number, counter: TokenCounter): string[] {
+  if (counter.count(text) <= maxTokens) return [text];
+
+  const pieces: string[] = [];
+  let current = "";
+  for (const line of text.split("\n")) {
+    const candidate = current ? `${current}\n${line}` : line;
+    if (counter.count(candidate) <= maxTokens) {
+      current = candidate;
+      continue;
+    }
+    if (current) pieces.push(current);
+    // A single line over budget: fall back to proportional character slices
+    if (counter.count(line) > maxTokens) {
+      const size = Math.max(1, Math.floor((line.length * maxTokens) / counter.count(line)));
+      for (let i = 0; i < line.length; i += size) pieces.push(line.slice(i, i + size));
+      current = "";
+    } else {
+      current = line;
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/** Index of the turn with `hash` nearest `from`, searching back from it before looking past it. */
+function findNearest(turns: Turn[], hash: string, from: number): number {
+  for (let i = Math.min(from, turns.length - 1); i >= 0; i--) {
+    if (hashTurn(turns[i]) === hash) return i;
+  }
+  for (let i = from + 1; i < turns.length; i++) {
+    if (hashTurn(turns[i]) === hash) return i;
+  }
+  return -1;
+}
+
+function hashTurn(turn: Turn): string {
+  return createHash("sha256").update(turn.role).update("\0").update(turn.text).digest("hex").slice(0, 16);
+}
@@ -8,29 +8,145 @@
 import type {
   PluginConfig,
   Memory,
+  MemoryHistory,
   ScoredMemory,
   StoreRequest,
   SearchRequest,
+  ListRequest,
   ContextRequest,
   Entity,
   EntityProfile,
   Relationship,
+  RelationshipRequest,
+  EntityListRequest,
+  RelationshipListRequest,
+  WisdomListRequest,
   WisdomEntry,
   ExtractionResult,
   HealthResponse,
   StatsResponse,
 } from "./types.js";
+import { CircuitBreaker, type BreakerStatus } from "./breaker.js";
+import { cacheKey, normalizeQuery, type CachedMethod, type RecallCache } from "./cache.js";
+import type { FallbackStore } from "./fallback.js";
+
+export type ClientOptions = Pick<PluginConfig, "serverUrl" | "apiKey"> &
+  Partial<
+    Pick<
+      PluginConfig,
+      | "requestTimeoutMs"
+      | "recallTimeoutMs"
+      | "extractTimeoutMs"
+      | "maxRetries"
+      | "breakerThreshold"
+      | "breakerCooldownMs"
+    >
+  >;
+
+interface RequestOptions {
+  timeoutMs?: number;
+  /** Safe to replay after a timeout or 5xx (reads, deletes). */
+  idempotent?: boolean;
+  /** Skip the circuit breaker (used by the health probe itself). */
+  bypassBreaker?: boolean;
+}
+
+/** Error raised for failed maasv-server calls. */
+export class MaasvError extends Error {
+  constructor(
+    message: string,
+    readonly status: number | null,
+    /** True when the server was unreachable, timed out, or returned 5xx. */
+    readonly unavailable: boolean,
+  ) {
+    super(message);
+    this.name = "MaasvError";
+  }
+}
+
+/** Raised without touching the network while the circuit is open. */
+export class CircuitOpenError extends MaasvError {
+  constructor(serverUrl: string) {
+    super(`maasv-server at ${serverUrl} is unavailable (circuit open)`, null, true);
+    this.name = "CircuitOpenError";
+  }
+}
+
+/** True if the error means maasv-server is down rather than the request being bad. */
+export function isUnavailableError(err: unknown): boolean {
+  return err instanceof MaasvError && err.unavailable;
+}
+
+const CONNECTION_ERROR_CODES = new Set([
+  "ECONNREFUSED",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EHOSTUNREACH",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+// Writes that can change what recall returns; wisdom writes don't
+const RECALL_WRITE_PATH = /^\/v1\/(memory|graph|extract)\b/;
+const READ_PATH = /\/(search|list|context)$/;
+
+const BACKOFF_BASE_MS = 200;
+const BACKOFF_MAX_MS = 4_000;
 
 export class MaasvClient {
   private baseUrl: string;
   private headers: Record<string, string>;
+  private timeouts: { default: number; recall: number; extract: number };
+  private maxRetries: number;
+  private breaker: CircuitBreaker;
+  /** Namespace writes go to; reads also include `sharedNamespace`. Unset = global. */
+  private namespace?: string;
+  private sharedNamespace?: string;
+  /** Serves reads while the server is unavailable (degraded mode). */
+  private fallback?: FallbackStore;
+  /** Short-lived cache in front of recall reads. */
+  private cache?: RecallCache;
 
-  constructor(config: Pick<PluginConfig, "serverUrl" | "apiKey">) {
+  constructor(config: ClientOptions, fallback?: FallbackStore, cache?: RecallCache) {
     this.baseUrl = config.serverUrl.replace(/\/+$/, "");
     this.headers = { "Content-Type": "application/json" };
     if (config.apiKey) {
       this.headers["X-Maasv-Key"] = config.apiKey;
     }
+    this.timeouts = {
+      default: config.requestTimeoutMs ?? 10_000,
+      recall: config.recallTimeoutMs ?? 3_000,
+      extract: config.extractTimeoutMs ?? 120_000,
+    };
+    this.maxRetries = config.maxRetries ?? 2;
+    this.breaker = new CircuitBreaker(
+      config.breakerThreshold ?? 5,
+      config.breakerCooldownMs ?? 30_000,
+    );
+    this.fallback = fallback;
+    this.cache = cache;
+  }
+
+  /**
+   * A view of this client scoped to a namespace. Shares the connection
+   * settings, circuit breaker and everything else with the parent.
+   */
+  withNamespace(namespace?: string, sharedNamespace?: string): MaasvClient {
+    if (!namespace) return this;
+    const scoped = Object.create(this) as MaasvClient;
+    scoped.namespace = namespace;
+    scoped.sharedNamespace =
+      sharedNamespace && sharedNamespace !== namespace ? sharedNamespace : undefined;
+    return scoped;
+  }
+
+  /** The namespace this client writes to, if scoped. */
+  get currentNamespace(): string | undefined {
+    return this.namespace;
+  }
+
+  /** Current circuit breaker state, for status reporting. */
+  breakerStatus(): BreakerStatus {
+    return this.breaker.status();
   }
 
   // --- Internals ---
@@ -39,70 +155,280 @@ export class MaasvClient {
     method: string,
     path: string,
     body?: unknown,
+    opts: RequestOptions = {},
+  ): Promise<T> {
+    if (!opts.bypassBreaker) {
+      const allowed = await this.breaker.allow(() => this.probeHealth());
+      if (!allowed) throw new CircuitOpenError(this.baseUrl);
+    }
+
+    if (!this.cache || !isRecallWrite(method, path)) return this.attempt(method, path, body, opts);
+    // Before, so new reads skip stale entries; after, so reads racing the write aren't kept
+    this.cache.invalidate();
+    try {
+      return await this.attempt(method, path, body, opts);
+    } finally {
+      this.cache.invalidate();
+    }
+  }
+
+  private async attempt<T>(
+    method: string,
+    path: string,
+    body: unknown,
+    opts: RequestOptions,
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await this.send<T>(method, path, body, opts);
+        if (!opts.bypassBreaker) this.breaker.recordSuccess();
+        return result;
+      } catch (err) {
+        const error = err as MaasvError;
+        if (error.unavailable && !opts.bypassBreaker) {
+          this.breaker.recordFailure(error.message);
+        }
+        const retryable =
+          error.unavailable &&
+          (opts.idempotent || isConnectionFailure(error.cause));
+        if (!retryable || attempt >= this.maxRetries) throw error;
+        // Stop hammering a server the breaker has just given up on
+        if (!opts.bypassBreaker && this.breaker.status().state === "open") {
+          throw error;
+        }
+        await sleep(backoffDelay(attempt));
+      }
+    }
+  }
+
+  private async send<T>(
+    method: string,
+    path: string,
+    body: unknown,
+    opts: RequestOptions,
   ): Promise<T> {
     const url = `${this.baseUrl}${path}`;
+    const timeoutMs = opts.timeoutMs ?? this.timeouts.default;
     const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 30_000);
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
 
     const init: RequestInit = {
       method,
-      headers: this.headers,
+      headers: this.scopedHeaders(),
       signal: controller.signal,
     };
     if (body !== undefined) {
-      init.body = JSON.stringify(body);
+      // Idempotent POSTs are the read endpoints (search, context, list)
+      init.body = JSON.stringify(this.scopeBody(body, opts.idempotent === true));
     }
 
     try {
-      const response = await fetch(url, init);
+      let response: Response;
+      try {
+        response = await fetch(url, init);
+      } catch (err) {
+        const timedOut = (err as Error).name === "AbortError";
+        const error = new MaasvError(
+          timedOut
+            ? `maasv-server ${method} ${path} timed out after ${timeoutMs}ms`
+            : `maasv-server ${method} ${path} unreachable: ${(err as Error).message}`,
+          null,
+          true,
+        );
+        error.cause = err;
+        throw error;
+      }
 
       if (!response.ok) {
         const text = await response.text().catch(() => "");
-        throw new Error(
+        throw new MaasvError(
           `maasv-server ${method} ${path} failed: ${response.status} ${text}`,
+          response.status,
+          response.status >= 500,
         );
       }
 
-      return response.json() as Promise<T>;
+      const text = await response.text();
+      try {
+        return JSON.parse(text) as T;
+      } catch {
+        // A read can safely be retried or served from the fallback cache. A
+        // write got a 2xx, so the server most likely applied it; sending it
+        // again (e.g. from the outbox) would duplicate it.
+        const snippet = text.replace(/\s+/g, " ").trim().slice(0, 200);
+        throw new MaasvError(
+          `maasv-server ${method} ${path} returned malformed JSON (${response.status}): ${snippet || "empty body"}`,
+          response.status,
+          opts.idempotent === true,
+        );
+      }
     } finally {
       clearTimeout(timeout);
     }
   }
 
+  private readNamespaces(): string[] {
+    if (!this.namespace) return [];
+    return this.sharedNamespace ? [this.namespace, this.sharedNamespace] : [this.namespace];
+  }
+
+  private scopedHeaders(): Record<string, string> {
+    if (!this.namespace) return this.headers;
+    return {
+      ...this.headers,
+      "X-Maasv-Namespace": this.namespace,
+      "X-Maasv-Read-Namespaces": this.readNamespaces().join(","),
+    };
+  }
+
+  private scopeBody(body: unknown, read: boolean): unknown {
+    if (!this.namespace || !body || typeof body !== "object" || Array.isArray(body)) {
+      return body;
+    }
+    return read
+      ? { ...body, namespace: this.namespace, namespaces: this.readNamespaces() }
+      : { ...body, namespace: this.namespace };
+  }
+
+  /**
+   * Run a read; if the server is unavailable, answer from the fallback store
+   * instead. `fromCache` returning null means the cache can't help.
+   */
+  private async withFallback<T>(read: () => Promise<T>, fromCache: (cache: FallbackStore) => T | null): Promise<T> {
+    try {
+      return await read();
+    } catch (err) {
+      if (!this.fallback || !isUnavailableError(err)) throw err;
+      const cached = fromCache(this.fallback);
+      if (cached === null) throw err;
+      return cached;
+    }
+  }
+
+  /** Serve a recall read from the cache, or load it (once for concurrent callers). */
+  private cached<T>(method: CachedMethod, params: Record<string, unknown>, load: () => Promise<T>): Promise<T> {
+    if (!this.cache) return load();
+    const query = typeof params.query === "string" ? normalizeQuery(params.query) : params.query;
+    return this.cache.get(method, cacheKey([this.readNamespaces(), { ...params, query }]), load);
+  }
+
+  private async probeHealth(): Promise<boolean> {
+    const health = await this.request<HealthResponse>("GET", "/v1/health", undefined, {
+      idempotent: true,
+      bypassBreaker: true,
+      timeoutMs: this.timeouts.recall,
+    });
+    return health.status === "healthy";
+  }
+
   // --- Memory ---
 
   async storeMemory(req: StoreRequest): Promise<{ memory_id: string }> {
-    return this.request("POST", "/v1/memory/store", req);
+    const body = this.namespace
+      ? { ...req, metadata: { ...req.metadata, namespace: this.namespace } }
+      : req;
+    try {
+      const result = await this.request<{ memory_id: string }>("POST", "/v1/memory/store", body);
+      this.fallback?.rememberStored(result.memory_id, req, this.namespace);
+      return result;
+    } catch (err) {
+      // Callers queue the write; keep it findable offline in the meantime
+      if (isUnavailableError(err)) this.fallback?.rememberPending(req, this.namespace);
+      throw err;
+    }
   }
 
   async searchMemories(
     req: SearchRequest,
-  ): Promise<{ results: ScoredMemory[]; count: number }> {
-    return this.request("POST", "/v1/memory/search", req);
+  ): Promise<{ results: ScoredMemory[]; count: number; fallback?: boolean }> {
+    return this.withFallback(
+      () =>
+        this.cached("searchMemories", { ...req }, async () => {
+          const result = await this.request<{ results: ScoredMemory[]; count: number }>(
+            "POST",
+            "/v1/memory/search",
+            req,
+            { idempotent: true, timeoutMs: this.timeouts.recall },
+          );
+          this.fallback?.rememberMemories(result.results, this.namespace);
+          return result;
+        }),
+      (cache) => {
+        const results = cache.searchMemories(req, this.readNamespaces());
+        return { results, count: results.length, fallback: true };
+      },
+    );
+  }
+
+  async listMemories(
+    req: ListRequest,
+  ): Promise<{ results: Memory[]; count: number; total: number }> {
+    return this.request("POST", "/v1/memory/list", req, { idempotent: true });
   }
 
-  async getContext(req: ContextRequest): Promise<{ context: string }> {
-    return this.request("POST", "/v1/memory/context", req);
+  async getContext(req: ContextRequest): Promise<{ context: string; fallback?: boolean }> {
+    return this.withFallback(
+      () =>
+        this.cached("getContext", { ...req }, async () => {
+          const result = await this.request<{ context: string }>("POST", "/v1/memory/context", req, {
+            idempotent: true,
+            timeoutMs: this.timeouts.recall,
+          });
+          this.fallback?.rememberContext(result.context, this.namespace);
+          return result;
+        }),
+      (cache) => ({
+        context: cache.context(req, this.namespace, this.readNamespaces()),
+        fallback: true,
+      }),
+    );
   }
 
-  async getMemory(memoryId: string): Promise<Memory> {
-    return this.request("GET", `/v1/memory/${memoryId}`);
+  async getMemory(memoryId: string): Promise<Memory & { fallback?: boolean }> {
+    return this.withFallback(
+      async () => {
+        const memory = await this.request<Memory>("GET", `/v1/memory/${memoryId}`, undefined, {
+          idempotent: true,
+        });
+        this.fallback?.rememberMemories([memory], this.namespace);
+        return memory;
+      },
+      (cache) => {
+        const memory = cache.getMemory(memoryId, this.readNamespaces());
+        return memory && { ...memory, fallback: true };
+      },
+    );
   }
 
   async deleteMemory(
     memoryId: string,
   ): Promise<{ deleted: boolean; memory_id: string }> {
-    return this.request("DELETE", `/v1/memory/${memoryId}`);
+    const result = await this.request<{ deleted: boolean; memory_id: string }>(
+      "DELETE",
+      `/v1/memory/${memoryId}`,
+      undefined,
+      { idempotent: true },
+    );
+    this.fallback?.forgetMemory(memoryId);
+    return result;
   }
 
   async supersedeMemory(
     oldId: string,
     newContent: string,
   ): Promise<{ memory_id: string }> {
-    return this.request("POST", "/v1/memory/supersede", {
+    const result = await this.request<{ memory_id: string }>("POST", "/v1/memory/supersede", {
       old_id: oldId,
       new_content: newContent,
     });
+    this.fallback?.forgetMemory(oldId);
+    return result;
+  }
+
+  async getMemoryHistory(memoryId: string): Promise<MemoryHistory> {
+    return this.request("GET", `/v1/memory/${memoryId}/history`, undefined, {
+      idempotent: true,
+    });
   }
 
   // --- Extraction ---
@@ -111,7 +437,12 @@ export class MaasvClient {
     text: string,
     topic?: string,
   ): Promise<ExtractionResult> {
-    return this.request("POST", "/v1/extract", { text, topic: topic ?? "" });
+    return this.request(
+      "POST",
+      "/v1/extract",
+      { text, topic: topic ?? "" },
+      { timeoutMs: this.timeouts.extract },
+    );
   }
 
   // --- Graph ---
@@ -132,29 +463,124 @@ export class MaasvClient {
     query: string,
     entityType?: string,
     limit?: number,
-  ): Promise<{ results: Entity[]; count: number }> {
-    return this.request("POST", "/v1/graph/entities/search", {
-      query,
-      entity_type: entityType,
-      limit: limit ?? 10,
+  ): Promise<{ results: Entity[]; count: number; fallback?: boolean }> {
+    return this.withFallback(
+      () =>
+        this.request<{ results: Entity[]; count: number }>(
+          "POST",
+          "/v1/graph/entities/search",
+          { query, entity_type: entityType, limit: limit ?? 10 },
+          { idempotent: true },
+        ),
+      (cache) => {
+        const results = cache.searchEntities(query, this.readNamespaces(), entityType, limit ?? 10);
+        return { results, count: results.length, fallback: true };
+      },
+    );
+  }
+
+  async getEntityProfile(
+    entityId: string,
+    opts: { includeEnded?: boolean } = {},
+  ): Promise<EntityProfile> {
+    const query = opts.includeEnded ? "?include_ended=true" : "";
+    return this.withFallback(
+      () =>
+        this.cached("getEntityProfile", { entityId, includeEnded: opts.includeEnded === true }, async () => {
+          const profile = await this.request<EntityProfile>(
+            "GET",
+            `/v1/graph/entities/${entityId}${query}`,
+            undefined,
+            { idempotent: true },
+          );
+          // Only current relationships are cached, so degraded reads match the default view
+          if (!opts.includeEnded) this.fallback?.rememberProfile(profile, this.namespace);
+          return profile;
+        }),
+      (cache) => {
+        const profile = cache.getProfile(entityId, this.readNamespaces());
+        return profile && { ...profile, fallback: true };
+      },
+    );
+  }
+
+  async listEntities(
+    req: EntityListRequest,
+  ): Promise<{ results: Entity[]; count: number; total: number }> {
+    return this.request("POST", "/v1/graph/entities/list", req, { idempotent: true });
+  }
+
+  /** Rename an entity; with keepAlias the old name stays resolvable. */
+  async renameEntity(entityId: string, name: string, keepAlias = true): Promise<Entity> {
+    const entity = await this.request<Entity>("POST", `/v1/graph/entities/${entityId}/rename`, {
+      name,
+      keep_alias: keepAlias,
+    });
+    this.fallback?.forgetProfile(entityId);
+    return entity;
+  }
+
+  /** Register another name that findOrCreateEntity and extraction resolve to this entity. */
+  async addEntityAlias(entityId: string, alias: string): Promise<Entity> {
+    return this.request("POST", `/v1/graph/entities/${entityId}/aliases`, { alias }, {
+      idempotent: true,
     });
   }
 
-  async getEntityProfile(entityId: string): Promise<EntityProfile> {
-    return this.request("GET", `/v1/graph/entities/${entityId}`);
+  async removeEntityAlias(entityId: string, alias: string): Promise<Entity> {
+    return this.request(
+      "DELETE",
+      `/v1/graph/entities/${entityId}/aliases/${encodeURIComponent(alias)}`,
+      undefined,
+      { idempotent: true },
+    );
   }
 
-  async addRelationship(req: {
-    subject_id: string;
-    predicate: string;
-    object_id?: string;
-    object_value?: string;
-    confidence?: number;
-    source?: string;
-  }): Promise<{ relationship_id: string }> {
+  /** Delete an entity together with every relationship that touches it. */
+  async deleteEntity(
+    entityId: string,
+  ): Promise<{ deleted: boolean; entity_id: string; relationships_removed: number }> {
+    const result = await this.request<{
+      deleted: boolean;
+      entity_id: string;
+      relationships_removed: number;
+    }>("DELETE", `/v1/graph/entities/${entityId}`, undefined, { idempotent: true });
+    this.fallback?.forgetProfile(entityId);
+    return result;
+  }
+
+  async addRelationship(
+    req: RelationshipRequest,
+  ): Promise<{ relationship_id: string }> {
     return this.request("POST", "/v1/graph/relationships", req);
   }
 
+  /** Close a relationship by setting valid_to (default now) rather than deleting it. */
+  async endRelationship(
+    relationshipId: string,
+    validTo?: string,
+  ): Promise<{ relationship_id: string; valid_to: string }> {
+    return this.request("POST", `/v1/graph/relationships/${relationshipId}/end`, {
+      valid_to: validTo,
+    });
+  }
+
+  async deleteRelationship(
+    relationshipId: string,
+  ): Promise<{ deleted: boolean; relationship_id: string }> {
+    return this.request("DELETE", `/v1/graph/relationships/${relationshipId}`, undefined, {
+      idempotent: true,
+    });
+  }
+
+  async listRelationships(
+    req: RelationshipListRequest,
+  ): Promise<{ results: Relationship[]; count: number; total: number }> {
+    return this.request("POST", "/v1/graph/relationships/list", req, {
+      idempotent: true,
+    });
+  }
+
   // --- Wisdom ---
 
   async logReasoning(req: {
@@ -164,6 +590,8 @@ export class MaasvClient {
     trigger?: string;
     context?: string;
     tags?: string[];
+    /** Original time of the action, for imports; the server defaults to now. */
+    timestamp?: string;
   }): Promise<{ wisdom_id: string }> {
     return this.request("POST", "/v1/wisdom/log", req);
   }
@@ -194,19 +622,78 @@ export class MaasvClient {
     query: string,
     limit?: number,
   ): Promise<{ results: WisdomEntry[]; count: number }> {
-    return this.request("POST", "/v1/wisdom/search", {
-      query,
-      limit: limit ?? 10,
-    });
+    return this.request(
+      "POST",
+      "/v1/wisdom/search",
+      { query, limit: limit ?? 10 },
+      { idempotent: true, timeoutMs: this.timeouts.recall },
+    );
+  }
+
+  async listWisdom(
+    req: WisdomListRequest,
+  ): Promise<{ results: WisdomEntry[]; count: number; total: number }> {
+    return this.request("POST", "/v1/wisdom/list", req, { idempotent: true });
   }
 
   // --- Health ---
 
+  /**
+   * Always hits the server, even while the circuit is open, so it doubles
+   * as a manual probe: a healthy response closes the circuit. With a
+   * fallback store, an unreachable server reports "degraded" instead of
+   * throwing.
+   */
   async health(): Promise<HealthResponse> {
-    return this.request("GET", "/v1/health");
+    try {
+      const health = await this.request<HealthResponse>(
+        "GET",
+        "/v1/health",
+        undefined,
+        { idempotent: true, bypassBreaker: true },
+      );
+      if (health.status === "healthy") this.breaker.recordSuccess();
+      return { ...health, mode: "connected" };
+    } catch (err) {
+      if (isUnavailableError(err)) {
+        this.breaker.recordFailure((err as Error).message);
+        if (this.fallback) {
+          return {
+            status: "degraded",
+            mode: "degraded",
+            error: (err as Error).message,
+            fallback: this.fallback.status(),
+          };
+        }
+      }
+      throw err;
+    }
   }
 
   async stats(): Promise<StatsResponse> {
-    return this.request("GET", "/v1/stats");
+    return this.request("GET", "/v1/stats", undefined, { idempotent: true });
   }
 }
+
+// --- Helpers ---
+
+function isRecallWrite(method: string, path: string): boolean {
+  if (!RECALL_WRITE_PATH.test(path)) return false;
+  return method === "DELETE" || (method === "POST" && !READ_PATH.test(path));
+}
+
+function isConnectionFailure(cause: unknown): boolean {
+  // Node's fetch wraps socket errors: TypeError("fetch failed") with a coded cause
+  const code = (cause as { cause?: { code?: string } } | undefined)?.cause?.code;
+  return code !== undefined && CONNECTION_ERROR_CODES.has(code);
+}
+
+/** Full-jitter exponential backoff. */
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  return Math.random() * ceiling;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,129 @@
+/**
+ * Normalize OpenClaw message content into plain text for recall and capture.
+ *
+ * Message content is either a string or an array of content blocks. Text
+ * blocks are kept; tool calls are summarized by name; tool results are
+ * summarized by tool name plus a truncated result (or left out entirely);
+ * images and attachments become placeholders so base64 payloads never reach
+ * a recall query or the extraction LLM. Thinking blocks are dropped.
+ */
+
+export interface NormalizeOptions {
+  /** Include (truncated) tool result text. */
+  toolOutputs: boolean;
+  /** Max characters kept from a tool result or call arguments. */
+  maxToolChars: number;
+  /** Emit placeholders for images, attachments and tool calls. Off for recall queries. */
+  placeholders: boolean;
+}
+
+const DEFAULT_OPTIONS: NormalizeOptions = {
+  toolOutputs: false,
+  maxToolChars: 500,
+  placeholders: true,
+};
+
+export function normalizeContent(
+  content: unknown,
+  options: Partial<NormalizeOptions> = {},
+): string {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) {
+    return content && typeof content === "object" ? normalizeBlock(content, opts) ?? "" : "";
+  }
+  return content
+    .map((block) => normalizeBlock(block, opts))
+    .filter((part): part is string => !!part)
+    .join("\n");
+}
+
+/**
+ * Normalize a tool-result message (role "toolResult" or "tool"), which
+ * carries the tool name at the message level. Returns null when tool
+ * outputs are not being captured.
+ */
+export function normalizeToolResultMessage(
+  msg: any,
+  options: Partial<NormalizeOptions> = {},
+): string | null {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  if (!opts.toolOutputs) return null;
+  const name = msg.toolName ?? msg.name ?? "tool";
+  const body = normalizeContent(msg.content, { ...opts, placeholders: true });
+  return summarizeResult(name, body, msg.isError === true, opts.maxToolChars);
+}
+
+function normalizeBlock(block: any, opts: NormalizeOptions): string | null {
+  if (typeof block === "string") return block;
+  if (!block || typeof block !== "object") return null;
+
+  switch (block.type) {
+    case "text":
+    case "input_text":
+    case "output_text":
+      return typeof block.text === "string" ? block.text : null;
+
+    case "thinking":
+    case "redacted_thinking":
+      return null;
+
+    case "image":
+    case "image_url":
+    case "input_image": {
+      if (!opts.placeholders) return null;
+      const mime = block.mimeType ?? block.source?.media_type;
+      return mime ? `[image: ${mime}]` : "[image]";
+    }
+
+    case "document":
+    case "file":
+    case "attachment":
+    case "input_file": {
+      if (!opts.placeholders) return null;
+      const name = block.name ?? block.filename ?? block.title ?? block.source?.media_type;
+      return name ? `[attachment: ${name}]` : "[attachment]";
+    }
+
+    case "toolCall":
+    case "tool_use":
+    case "function_call": {
+      if (!opts.placeholders) return null;
+      const args = block.arguments ?? block.input;
+      const argText = opts.toolOutputs && args !== undefined ? truncate(stringify(args), opts.maxToolChars) : "";
+      return `[tool call: ${block.name ?? "unknown"}${argText ? ` ${argText}` : ""}]`;
+    }
+
+    case "toolResult":
+    case "tool_result":
+    case "function_call_output": {
+      if (!opts.toolOutputs) return null;
+      const body = normalizeContent(block.content ?? block.output, { ...opts, placeholders: true });
+      const name = block.toolName ?? block.name ?? block.tool_use_id ?? "tool";
+      return summarizeResult(name, body, block.is_error === true || block.isError === true, opts.maxToolChars);
+    }
+
+    default:
+      // Unknown block types: keep any text, never dump the raw object
+      return typeof block.text === "string" ? block.text : null;
+  }
+}
+
+function summarizeResult(name: string, body: string, isError: boolean, maxChars: number): string {
+  const label = isError ? "tool error" : "tool result";
+  const text = truncate(body.replace(/\s+/g, " ").trim(), maxChars);
+  return text ? `[${label}: ${name} → ${text}]` : `[${label}: ${name}]`;
+}
+
+function truncate(s: string, max: number): string {
+  return s.length > max ? `${s.slice(0, max)}…` : s;
+}
+
+function stringify(value: unknown): string {
+  if (typeof value === "string") return value;
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Per-session recall deduplication.
+ *
+ * Auto-recall would otherwise inject the same core memories on every turn.
+ * Each session keeps the keys of memories it has already injected; after the
+ * first turn only unseen keys are injected. A key changes when the memory
+ * does: structured recall uses the id plus updated_at, and tiered context
+ * (plain text, no ids) uses a hash of the entry text.
+ *
+ * The session starts over (everything injected again) after compaction,
+ * when the transcript shrinks, and optionally every N turns. State lives in
+ * memory only; after a restart the first turn injects everything again.
+ */
+
+import { createHash } from "node:crypto";
+import type { ScoredMemory } from "./types.js";
+
+interface SessionRecall {
+  seen: Set<string>;
+  /** Turns since everything was last injected. */
+  sinceFull: number;
+  /** Transcript length at the last turn, to notice compaction. */
+  transcriptTurns: number;
+}
+
+// Sessions kept before the least recently used is forgotten
+const MAX_SESSIONS = 500;
+
+export class RecallDedup {
+  private sessions = new Map<string, SessionRecall>();
+
+  /** @param reinjectEveryTurns inject everything again every N turns; 0 = only after compaction */
+  constructor(private reinjectEveryTurns: number) {}
+
+  /**
+   * Start a recall turn. Returns why everything should be injected this turn,
+   * or null to inject only unseen memories.
+   */
+  beginTurn(sessionKey: string, transcriptTurns?: number): string | null {
+    const state = this.sessions.get(sessionKey);
+    let reason: string | null = null;
+    if (!state) reason = "first turn";
+    else if (transcriptTurns !== undefined && transcriptTurns < state.transcriptTurns) reason = "transcript shrank";
+    else if (this.reinjectEveryTurns > 0 && state.sinceFull >= this.reinjectEveryTurns) {
+      reason = `every ${this.reinjectEveryTurns} turns`;
+    }
+
+    const next: SessionRecall =
+      reason || !state
+        ? { seen: new Set(), sinceFull: 0, transcriptTurns: 0 }
+        : state;
+    next.sinceFull += 1;
+    next.transcriptTurns = transcriptTurns ?? next.transcriptTurns;
+    // Re-insert so iteration order tracks recency
+    this.sessions.delete(sessionKey);
+    this.sessions.set(sessionKey, next);
+    if (this.sessions.size > MAX_SESSIONS) {
+      this.sessions.delete(this.sessions.keys().next().value as string);
+    }
+    return reason;
+  }
+
+  isSeen(sessionKey: string, key: string): boolean {
+    return this.sessions.get(sessionKey)?.seen.has(key) ?? false;
+  }
+
+  markSeen(sessionKey: string, keys: string[]): void {
+    const state = this.sessions.get(sessionKey);
+    if (!state) return;
+    for (const key of keys) state.seen.add(key);
+  }
+
+  /** Inject everything again at the session's next turn (e.g. after compaction). */
+  reset(sessionKey: string): void {
+    this.sessions.delete(sessionKey);
+  }
+}
+
+/** Key for a structured recall result; changes when the memory is updated. */
+export function memoryKey(m: ScoredMemory): string {
+  return `${m.id}@${m.updated_at}`;
+}
+
+/** Key for a tiered context entry, which carries no id. */
+export function entryKey(entry: string): string {
+  const normalized = entry.replace(/\s+/g, " ").trim();
+  return `entry:${createHash("sha256").update(normalized).digest("hex").slice(0, 16)}`;
+}
@@ -0,0 +1,412 @@
+/**
+ * Entity cleanup: duplicate detection, reversible merges, aliases.
+ *
+ * Extraction tends to create near-duplicates ("Bob", "Bob Smith", "bsmith").
+ * Candidates are scored by canonical-name similarity within an entity type,
+ * then boosted by how many neighbors the pair shares. A merge re-points the
+ * source's relationships at the target, adds the source's names as aliases
+ * and deletes the source; the full pre-merge state is appended to a local
+ * audit log so the merge can be undone.
+ */
+
+import { randomBytes } from "node:crypto";
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { paginate } from "./bundle.js";
+import { MaasvError, type MaasvClient } from "./client.js";
+import { writeFileAtomic } from "./state.js";
+import type { Entity, EntityProfile, Relationship } from "./types.js";
+
+export interface DuplicateCandidate {
+  a: Entity;
+  b: Entity;
+  score: number;
+  reasons: string[];
+}
+
+export interface DuplicateOptions {
+  entityType?: string;
+  limit: number;
+  /** Minimum combined score (0–1) to report a pair. */
+  minScore: number;
+}
+
+export interface MergeRecord {
+  id: string;
+  mergedAt: string;
+  undoneAt: string | null;
+  source: Entity;
+  target: Entity;
+  /** The source's relationships before the merge, ended ones included. */
+  relationships: Relationship[];
+  /** Relationships created on the target by re-pointing. */
+  created: string[];
+  /** Names added to the target as aliases. */
+  aliasesAdded: string[];
+}
+
+export interface MergePlan {
+  source: Entity;
+  target: Entity;
+  repoint: Relationship[];
+  /** Relationships that would become self-loops or duplicate one the target already has. */
+  dropped: Relationship[];
+  aliases: string[];
+}
+
+const PAGE_SIZE = 200;
+// Pairs below this name score are never considered, however many neighbors they share
+const MIN_NAME_SCORE = 0.6;
+const NAME_WEIGHT = 0.75;
+
+export async function findDuplicateCandidates(
+  client: MaasvClient,
+  opts: DuplicateOptions,
+): Promise<DuplicateCandidate[]> {
+  // Block by entity type and first letter so comparison stays sub-quadratic
+  const blocks = new Map<string, Entity[]>();
+  for await (const e of paginate((offset) =>
+    client.listEntities({ entity_type: opts.entityType, limit: PAGE_SIZE, offset }),
+  )) {
+    const key = `${e.entity_type}\0${compact(e.canonical_name).charAt(0)}`;
+    blocks.set(key, [...(blocks.get(key) ?? []), e]);
+  }
+
+  const pairs: Array<{ a: Entity; b: Entity; name: number; reason: string }> = [];
+  for (const block of blocks.values()) {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const [name, reason] = nameSimilarity(block[i].canonical_name, block[j].canonical_name);
+        if (name >= MIN_NAME_SCORE) pairs.push({ a: block[i], b: block[j], name, reason });
+      }
+    }
+  }
+
+  // Only the best name matches are worth a profile fetch each
+  pairs.sort((x, y) => y.name - x.name);
+  const profiles = new Map<string, Promise<EntityProfile>>();
+  const profile = (id: string) => {
+    if (!profiles.has(id)) profiles.set(id, client.getEntityProfile(id));
+    return profiles.get(id)!;
+  };
+
+  const candidates: DuplicateCandidate[] = [];
+  for (const pair of pairs.slice(0, opts.limit * 3)) {
+    const [pa, pb] = await Promise.all([profile(pair.a.id), profile(pair.b.id)]);
+    const shared = sharedNeighbors(pa, pb);
+    const score = NAME_WEIGHT * pair.name + (1 - NAME_WEIGHT) * shared.score;
+    if (score < opts.minScore) continue;
+    const reasons = [pair.reason];
+    if (shared.count) reasons.push(`${shared.count} shared neighbor${shared.count === 1 ? "" : "s"}`);
+    if (linked(pa, pair.b.id)) reasons.push("directly related");
+    candidates.push({ a: pair.a, b: pair.b, score, reasons });
+  }
+  return candidates.sort((x, y) => y.score - x.score).slice(0, opts.limit);
+}
+
+/** Append-only audit log of merges, so each can be undone. */
+export class MergeLog {
+  readonly path: string;
+
+  constructor(stateDir: string) {
+    this.path = join(stateDir, "entity-merges.jsonl");
+  }
+
+  list(): MergeRecord[] {
+    if (!existsSync(this.path)) return [];
+    const records: MergeRecord[] = [];
+    for (const line of readFileSync(this.path, "utf8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line) as MergeRecord);
+      } catch {
+        // Skip a torn line rather than losing the whole log
+      }
+    }
+    return records;
+  }
+
+  get(id: string): MergeRecord | undefined {
+    return this.list().find((r) => r.id === id);
+  }
+
+  append(record: MergeRecord): void {
+    this.save([...this.list(), record]);
+  }
+
+  markUndone(id: string): void {
+    const now = new Date().toISOString();
+    this.save(this.list().map((r) => (r.id === id ? { ...r, undoneAt: now } : r)));
+  }
+
+  private save(records: MergeRecord[]): void {
+    writeFileAtomic(
+      this.path,
+      records.map((r) => JSON.stringify(r)).join("\n") + (records.length ? "\n" : ""),
+    );
+  }
+}
+
+/** Work out what merging `sourceId` into `targetId` would do, without writing. */
+export async function planMerge(
+  client: MaasvClient,
+  sourceId: string,
+  targetId: string,
+): Promise<MergePlan> {
+  if (sourceId === targetId) throw new Error("Cannot merge an entity into itself");
+  const [source, target] = await Promise.all([
+    client.getEntityProfile(sourceId, { includeEnded: true }),
+    client.getEntityProfile(targetId, { includeEnded: true }),
+  ]);
+  if (source.entity.entity_type !== target.entity.entity_type) {
+    throw new Error(
+      `Cannot merge a ${source.entity.entity_type} into a ${target.entity.entity_type}`,
+    );
+  }
+
+  const existing = new Set(allRelationships(target).map(edgeKey));
+  const plan: MergePlan = {
+    source: source.entity,
+    target: target.entity,
+    repoint: [],
+    dropped: [],
+    aliases: [],
+  };
+  for (const rel of allRelationships(source)) {
+    const moved = repoint(rel, sourceId, targetId);
+    if (moved.subject_id === moved.object_id || existing.has(edgeKey(moved))) {
+      plan.dropped.push(rel);
+    } else {
+      existing.add(edgeKey(moved));
+      plan.repoint.push(rel);
+    }
+  }
+
+  const known = new Set([target.entity.canonical_name, ...(target.entity.aliases ?? [])].map(compact));
+  for (const name of [source.entity.name, ...(source.entity.aliases ?? [])]) {
+    if (!known.has(compact(name))) {
+      known.add(compact(name));
+      plan.aliases.push(name);
+    }
+  }
+  return plan;
+}
+
+/**
+ * Merge `plan.source` into `plan.target`. The audit record is written even if
+ * a step fails part-way, so whatever was done can still be undone.
+ */
+export async function executeMerge(
+  client: MaasvClient,
+  plan: MergePlan,
+  log: MergeLog,
+): Promise<MergeRecord> {
+  const record: MergeRecord = {
+    id: `m_${randomBytes(6).toString("hex")}`,
+    mergedAt: new Date().toISOString(),
+    undoneAt: null,
+    source: plan.source,
+    target: plan.target,
+    relationships: [...plan.repoint, ...plan.dropped],
+    created: [],
+    aliasesAdded: [],
+  };
+
+  try {
+    for (const rel of plan.repoint) {
+      const moved = repoint(rel, plan.source.id, plan.target.id);
+      const { relationship_id } = await client.addRelationship({
+        subject_id: moved.subject_id,
+        predicate: moved.predicate,
+        object_id: moved.object_id ?? undefined,
+        object_value: moved.object_value ?? undefined,
+        confidence: moved.confidence,
+        source: "merge",
+        valid_from: moved.valid_from,
+        valid_to: moved.valid_to,
+      });
+      record.created.push(relationship_id);
+    }
+    for (const alias of plan.aliases) {
+      await client.addEntityAlias(plan.target.id, alias);
+      record.aliasesAdded.push(alias);
+    }
+    await client.deleteEntity(plan.source.id);
+  } catch (err) {
+    log.append(record);
+    throw new Error(
+      `Merge ${record.id} failed part-way (${(err as Error).message}); undo it with 'maasv graph unmerge ${record.id}'`,
+    );
+  }
+  log.append(record);
+  return record;
+}
+
+/**
+ * Undo a merge: drop the target's added aliases and re-pointed relationships,
+ * recreate the source entity (it gets a new ID) and restore its relationships.
+ */
+export async function undoMerge(
+  client: MaasvClient,
+  log: MergeLog,
+  mergeId: string,
+): Promise<{ record: MergeRecord; restored: Entity; relationships: number }> {
+  const record = log.get(mergeId);
+  if (!record) throw new Error(`No merge with ID ${mergeId}`);
+  if (record.undoneAt) throw new Error(`Merge ${mergeId} was already undone at ${record.undoneAt}`);
+
+  // Aliases first, so recreating the source doesn't resolve back to the target
+  for (const alias of record.aliasesAdded) {
+    await ignoreNotFound(() => client.removeEntityAlias(record.target.id, alias));
+  }
+  for (const id of record.created) {
+    await ignoreNotFound(() => client.deleteRelationship(id));
+  }
+
+  const restored = await client.findOrCreateEntity(
+    record.source.name,
+    record.source.entity_type,
+    record.source.metadata ?? undefined,
+  );
+  for (const alias of record.source.aliases ?? []) {
+    await client.addEntityAlias(restored.id, alias);
+  }
+  for (const rel of record.relationships) {
+    const back = repoint(rel, record.source.id, restored.id);
+    await client.addRelationship({
+      subject_id: back.subject_id,
+      predicate: back.predicate,
+      object_id: back.object_id ?? undefined,
+      object_value: back.object_value ?? undefined,
+      confidence: back.confidence,
+      source: "unmerge",
+      valid_from: back.valid_from,
+      valid_to: back.valid_to,
+    });
+  }
+
+  log.markUndone(mergeId);
+  return { record, restored, relationships: record.relationships.length };
+}
+
+// --- Rendering ---
+
+export function formatCandidates(candidates: DuplicateCandidate[]): string {
+  if (candidates.length === 0) return "No duplicate candidates found.";
+  return candidates
+    .map(
+      (c) =>
+        `${c.score.toFixed(2)}  ${c.a.name} [${c.a.id}] ≈ ${c.b.name} [${c.b.id}] (${c.a.entity_type}; ${c.reasons.join(", ")})`,
+    )
+    .join("\n");
+}
+
+export function formatMergePlan(plan: MergePlan): string {
+  const lines = [
+    `Merge ${plan.source.name} [${plan.source.id}] into ${plan.target.name} [${plan.target.id}]:`,
+    `  re-point ${plan.repoint.length} relationship(s), drop ${plan.dropped.length} duplicate/self-loop`,
+  ];
+  if (plan.aliases.length) lines.push(`  add aliases: ${plan.aliases.join(", ")}`);
+  return lines.join("\n");
+}
+
+export function formatMergeRecord(record: MergeRecord): string {
+  const state = record.undoneAt ? `undone ${record.undoneAt}` : "active";
+  return `${record.id}  ${record.mergedAt}  ${record.source.name} [${record.source.id}] → ${record.target.name} [${record.target.id}]  ${record.created.length} re-pointed  (${state})`;
+}
+
+// --- Helpers ---
+
+function nameSimilarity(x: string, y: string): [number, string] {
+  const a = compact(x);
+  const b = compact(y);
+  if (a === b) return [1, "same name"];
+
+  const ta = tokens(x);
+  const tb = tokens(y);
+  const [short, long] = ta.length <= tb.length ? [ta, tb] : [tb, ta];
+  if (short.length && short.every((t) => long.includes(t))) return [0.85, "name contained"];
+
+  // "bsmith" ↔ "bob smith", "bobs" ↔ "bob smith"
+  const [flat, full] = a.length <= b.length ? [a, tb] : [b, ta];
+  if (full.length >= 2) {
+    const first = full[0];
+    const last = full[full.length - 1];
+    if (flat === first[0] + last || flat === first + last[0]) return [0.8, "initials match"];
+  }
+
+  const ratio = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+  return [ratio, "similar spelling"];
+}
+
+function sharedNeighbors(a: EntityProfile, b: EntityProfile): { score: number; count: number } {
+  const na = neighborIds(a);
+  const nb = neighborIds(b);
+  na.delete(b.entity.id);
+  nb.delete(a.entity.id);
+  let count = 0;
+  for (const id of na) if (nb.has(id)) count += 1;
+  const union = na.size + nb.size - count;
+  return { score: union ? count / union : 0, count };
+}
+
+function neighborIds(profile: EntityProfile): Set<string> {
+  const ids = new Set<string>();
+  for (const rel of allRelationships(profile)) {
+    const other = rel.subject_id === profile.entity.id ? rel.object_id : rel.subject_id;
+    if (other) ids.add(other);
+  }
+  return ids;
+}
+
+function linked(profile: EntityProfile, otherId: string): boolean {
+  return allRelationships(profile).some((r) => r.subject_id === otherId || r.object_id === otherId);
+}
+
+function allRelationships(profile: EntityProfile): Relationship[] {
+  const seen = new Map<string, Relationship>();
+  for (const rels of Object.values(profile.relationships)) {
+    for (const rel of rels) seen.set(rel.id, rel);
+  }
+  return [...seen.values()];
+}
+
+function repoint(rel: Relationship, fromId: string, toId: string): Relationship {
+  return {
+    ...rel,
+    subject_id: rel.subject_id === fromId ? toId : rel.subject_id,
+    object_id: rel.object_id === fromId ? toId : rel.object_id,
+  };
+}
+
+function edgeKey(rel: Relationship): string {
+  return [rel.subject_id, rel.predicate, rel.object_id ?? `"${rel.object_value}"`, rel.valid_from].join("\0");
+}
+
+async function ignoreNotFound(fn: () => Promise<unknown>): Promise<void> {
+  try {
+    await fn();
+  } catch (err) {
+    if (!(err instanceof MaasvError && err.status === 404)) throw err;
+  }
+}
+
+function compact(name: string): string {
+  return name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "");
+}
+
+function tokens(name: string): string[] {
+  return name.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+function levenshtein(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
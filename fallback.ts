@@ -0,0 +1,354 @@
+/**
+ * Local fallback store for degraded mode.
+ *
+ * A read-through cache of memories and entity profiles the plugin has seen
+ * from maasv-server (search and recall results, fetched memories, profiles),
+ * kept in the plugin state dir, plus the last tiered context per namespace.
+ * When the server is unavailable, MaasvClient answers reads from here with
+ * keyword-only search. Every cached item records its namespace and every
+ * read is filtered by the caller's namespaces, as the server would. Memories
+ * stored while offline are added as pending entries so they stay findable
+ * until the offline queue replays them. Least recently used entries are
+ * evicted past the caps. Writes to disk are batched and asynchronous, so
+ * read-throughs on the recall path never block on the file.
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { writeFileAtomicAsync } from "./state.js";
+import type {
+  ContextRequest,
+  Entity,
+  EntityProfile,
+  Memory,
+  ScoredMemory,
+  SearchRequest,
+  StoreRequest,
+} from "./types.js";
+
+/** Prefix for tool output served from the fallback store. */
+export const FALLBACK_NOTE =
+  "[maasv-server unavailable — results from the local fallback cache; they may be incomplete or stale]";
+
+export interface FallbackStatus {
+  memories: number;
+  pending: number;
+  profiles: number;
+}
+
+interface CachedMemory {
+  memory: Memory;
+  namespace: string | null;
+  /** Stored while offline; not yet on the server. */
+  pending: boolean;
+  usedAt: string;
+}
+
+interface CachedProfile {
+  profile: EntityProfile;
+  namespace: string | null;
+  usedAt: string;
+}
+
+interface CacheFile {
+  memories: Record<string, CachedMemory>;
+  profiles: Record<string, CachedProfile>;
+  /** Last tiered context per namespace ("" = unscoped). */
+  contexts: Record<string, { context: string; usedAt: string }>;
+}
+
+// One per namespace, so only a runaway namespace count hits this
+const MAX_CONTEXTS = 100;
+// Changes within this window go to disk in one write
+const SAVE_DELAY_MS = 1_000;
+// Same tiers maasv-server puts first in tiered context
+const CORE_CATEGORIES = ["identity", "family", "preference", "project"];
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "do", "does", "for", "from", "has", "have",
+  "how", "i", "in", "is", "it", "me", "my", "of", "on", "or", "that", "the", "this", "to", "was",
+  "what", "when", "where", "which", "who", "why", "with", "you", "your",
+]);
+
+export class FallbackStore {
+  readonly path: string;
+  private data: CacheFile | null = null;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  /** The write in progress, so writes never overlap. */
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(
+    stateDir: string,
+    private maxMemories: number,
+    private maxProfiles: number,
+  ) {
+    this.path = join(stateDir, "fallback-cache.json");
+  }
+
+  // --- Filling (from successful server responses) ---
+
+  rememberMemories(memories: Memory[], namespace?: string): void {
+    if (memories.length === 0) return;
+    const data = this.load();
+    const now = new Date().toISOString();
+    for (const m of memories) {
+      if (m.superseded_by) {
+        delete data.memories[m.id];
+        continue;
+      }
+      // Strip per-query fields like relevance
+      const { relevance: _relevance, ...memory } = m as ScoredMemory;
+      data.memories[m.id] = { memory, namespace: ownNamespace(m.metadata, namespace), pending: false, usedAt: now };
+    }
+    this.save(data);
+  }
+
+  /** Record a confirmed store; replaces the pending entry for the same content. */
+  rememberStored(id: string, req: StoreRequest, namespace?: string): void {
+    const data = this.load();
+    delete data.memories[pendingId(req.content, namespace)];
+    data.memories[id] = {
+      memory: draftMemory(id, req),
+      namespace: namespace ?? null,
+      pending: false,
+      usedAt: new Date().toISOString(),
+    };
+    this.save(data);
+  }
+
+  /** Keep a memory stored while offline searchable until it is replayed. */
+  rememberPending(req: StoreRequest, namespace?: string): void {
+    const id = pendingId(req.content, namespace);
+    const data = this.load();
+    data.memories[id] = {
+      memory: draftMemory(id, req),
+      namespace: namespace ?? null,
+      pending: true,
+      usedAt: new Date().toISOString(),
+    };
+    this.save(data);
+  }
+
+  rememberContext(context: string, namespace?: string): void {
+    if (!context) return;
+    const data = this.load();
+    data.contexts[namespace ?? ""] = { context, usedAt: new Date().toISOString() };
+    this.save(data);
+  }
+
+  forgetMemory(id: string): void {
+    const data = this.load();
+    if (!data.memories[id]) return;
+    delete data.memories[id];
+    this.save(data);
+  }
+
+  rememberProfile(profile: EntityProfile, namespace?: string): void {
+    const data = this.load();
+    data.profiles[profile.entity.id] = {
+      profile,
+      namespace: ownNamespace(profile.entity.metadata, namespace),
+      usedAt: new Date().toISOString(),
+    };
+    this.save(data);
+  }
+
+  forgetProfile(entityId: string): void {
+    const data = this.load();
+    if (!data.profiles[entityId]) return;
+    delete data.profiles[entityId];
+    this.save(data);
+  }
+
+  // --- Serving (while the server is unavailable) ---
+
+  /** Keyword search over cached memories visible to `namespaces` (all when empty). */
+  searchMemories(req: SearchRequest, namespaces: string[]): ScoredMemory[] {
+    const terms = tokenize(req.query);
+    if (terms.length === 0) return [];
+    return this.visible(namespaces)
+      .filter((c) => (!req.category || c.memory.category === req.category) && (!req.subject || c.memory.subject === req.subject))
+      .map((c) => ({ c, score: keywordScore(terms, `${c.memory.subject ?? ""} ${c.memory.content}`) }))
+      .filter((r) => r.score > 0)
+      .sort((a, b) => b.score - a.score || b.c.memory.created_at.localeCompare(a.c.memory.created_at))
+      .slice(0, req.limit ?? 10)
+      .map(({ c, score }) => ({ ...c.memory, relevance: score }));
+  }
+
+  getMemory(id: string, namespaces: string[]): Memory | null {
+    const cached = this.load().memories[id];
+    return cached && inScope(cached.namespace, namespaces) ? cached.memory : null;
+  }
+
+  /**
+   * Tiered context in the server's shape: core categories, then keyword
+   * matches. Falls back to the namespace's last context if nothing is cached.
+   */
+  context(req: ContextRequest, namespace: string | undefined, namespaces: string[]): string {
+    const coreLimit = req.core_limit ?? 5;
+    const relevantLimit = req.relevant_limit ?? 3;
+    const query = req.query;
+    const core = this.visible(namespaces)
+      .filter((c) => CORE_CATEGORIES.includes(c.memory.category))
+      .sort(
+        (a, b) =>
+          CORE_CATEGORIES.indexOf(a.memory.category) - CORE_CATEGORIES.indexOf(b.memory.category) ||
+          b.memory.created_at.localeCompare(a.memory.created_at),
+      )
+      .slice(0, coreLimit)
+      .map((c) => c.memory);
+    const seen = new Set(core.map((m) => m.id));
+    const relevant = query
+      ? this.searchMemories({ query, limit: relevantLimit + seen.size }, namespaces)
+          .filter((m) => !seen.has(m.id))
+          .slice(0, relevantLimit)
+      : [];
+
+    const sections: string[] = [];
+    for (const category of CORE_CATEGORIES) {
+      const entries = core.filter((m) => m.category === category);
+      if (entries.length) sections.push([`## ${capitalize(category)}`, ...entries.map(bullet)].join("\n"));
+    }
+    if (relevant.length) sections.push(["## Relevant", ...relevant.map(bullet)].join("\n"));
+    return sections.join("\n\n") || (this.load().contexts[namespace ?? ""]?.context ?? "");
+  }
+
+  getProfile(entityId: string, namespaces: string[]): EntityProfile | null {
+    const cached = this.load().profiles[entityId];
+    return cached && inScope(cached.namespace, namespaces) ? cached.profile : null;
+  }
+
+  /** Entities from cached profiles (and their related entities) matching a name. */
+  searchEntities(query: string, namespaces: string[], entityType?: string, limit = 10): Entity[] {
+    const q = query.toLowerCase().trim();
+    const found = new Map<string, Entity>();
+    for (const { profile, namespace } of Object.values(this.load().profiles)) {
+      if (!inScope(namespace, namespaces)) continue;
+      for (const e of [profile.entity, ...profile.related_entities]) {
+        if (entityType && e.entity_type !== entityType) continue;
+        const names = [e.name, ...(e.aliases ?? [])].map((n) => n.toLowerCase());
+        if (names.some((n) => n.includes(q))) found.set(e.id, e);
+      }
+    }
+    return [...found.values()].slice(0, limit);
+  }
+
+  status(): FallbackStatus {
+    const data = this.load();
+    const memories = Object.values(data.memories);
+    return {
+      memories: memories.length,
+      pending: memories.filter((c) => c.pending).length,
+      profiles: Object.keys(data.profiles).length,
+    };
+  }
+
+  /** Write pending changes now. */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+      const json = JSON.stringify(this.load());
+      this.writing = this.writing.then(() => writeFileAtomicAsync(this.path, json)).catch(() => {
+        // A cache that fails to persist still serves this process
+      });
+    }
+    return this.writing;
+  }
+
+  // --- Persistence ---
+
+  private visible(namespaces: string[]): CachedMemory[] {
+    return Object.values(this.load().memories).filter((c) => inScope(c.namespace, namespaces));
+  }
+
+  private load(): CacheFile {
+    if (this.data) return this.data;
+    this.data = { memories: {}, profiles: {}, contexts: {} };
+    if (existsSync(this.path)) {
+      try {
+        const parsed = JSON.parse(readFileSync(this.path, "utf8"));
+        this.data = {
+          memories: parsed.memories ?? {},
+          profiles: parsed.profiles ?? {},
+          contexts: parsed.contexts ?? {},
+        };
+      } catch {
+        // A corrupt cache is only a cache; start empty
+      }
+    }
+    return this.data;
+  }
+
+  private save(data: CacheFile): void {
+    evictOldest(data.memories, this.maxMemories);
+    evictOldest(data.profiles, this.maxProfiles);
+    evictOldest(data.contexts, MAX_CONTEXTS);
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => void this.flush(), SAVE_DELAY_MS);
+    this.saveTimer.unref?.();
+  }
+}
+
+// --- Helpers ---
+
+/** Visible to a reader of `namespaces` (all when empty), as on the server. */
+function inScope(namespace: string | null, namespaces: string[]): boolean {
+  return namespaces.length === 0 || (namespace !== null && namespaces.includes(namespace));
+}
+
+// Scoped reads can include shared-namespace items; keep their own namespace
+function ownNamespace(metadata: Record<string, unknown> | null, namespace?: string): string | null {
+  return typeof metadata?.namespace === "string" ? metadata.namespace : (namespace ?? null);
+}
+
+function evictOldest(entries: Record<string, { usedAt: string }>, max: number): void {
+  const keys = Object.keys(entries);
+  if (keys.length <= max) return;
+  keys
+    .sort((a, b) => entries[a].usedAt.localeCompare(entries[b].usedAt))
+    .slice(0, keys.length - max)
+    .forEach((k) => delete entries[k]);
+}
+
+function pendingId(content: string, namespace?: string): string {
+  const hash = createHash("sha256").update(`${namespace ?? ""}\0${content}`).digest("hex");
+  return `pending_${hash.slice(0, 12)}`;
+}
+
+function draftMemory(id: string, req: StoreRequest): Memory {
+  const now = new Date().toISOString();
+  return {
+    id,
+    content: req.content,
+    category: req.category,
+    subject: req.subject ?? null,
+    source: req.source ?? "openclaw",
+    confidence: req.confidence ?? 1,
+    importance: null,
+    access_count: 0,
+    created_at: now,
+    updated_at: now,
+    metadata: req.metadata ?? null,
+  };
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+    (t) => t.length > 1 && !STOPWORDS.has(t),
+  );
+}
+
+/** Fraction of query terms present in the text. */
+function keywordScore(terms: string[], text: string): number {
+  const words = new Set(tokenize(text));
+  return terms.filter((t) => words.has(t)).length / terms.length;
+}
+
+function bullet(m: Memory): string {
+  return `- ${m.subject ? `${m.subject}: ` : ""}${m.content}`;
+}
+
+function capitalize(s: string): string {
+  return s.charAt(0).toUpperCase() + s.slice(1);
+}
@@ -0,0 +1,348 @@
+/**
+ * Multi-hop traversal over the knowledge graph, built on getEntityProfile.
+ *
+ * Each profile gives an entity's relationships and related entities, so the
+ * walker expands one profile per visited node (cached per walk) and treats
+ * edges as undirected for reachability while keeping their direction for
+ * display. Every walk is capped so results stay small enough for the model.
+ *
+ * Walks see the graph as of one instant: now by default, or a past `asOf`
+ * date, in which case ended relationships are fetched and filtered by their
+ * valid_from / valid_to window. `includeEnded` skips the filter and walks
+ * every relationship the entity ever had (used by exports).
+ */
+
+import type { MaasvClient } from "./client.js";
+import type { Entity, EntityProfile, Relationship } from "./types.js";
+
+export interface TraversalFilters {
+  /** Only follow edges with these predicates. */
+  predicates?: string[];
+  /** Only include (and expand through) entities of these types. */
+  entityTypes?: string[];
+}
+
+export interface GraphLimits {
+  maxNodes: number;
+  maxEdges: number;
+}
+
+export interface Subgraph {
+  nodes: Map<string, { entity: Entity | null; depth: number }>;
+  edges: Relationship[];
+  truncated: boolean;
+}
+
+export interface WalkOptions {
+  /** View the graph as of this ISO date instead of now. */
+  asOf?: string;
+  /** Keep ended relationships instead of filtering to one instant. */
+  includeEnded?: boolean;
+  limits?: GraphLimits;
+}
+
+export const DEFAULT_LIMITS: GraphLimits = { maxNodes: 40, maxEdges: 80 };
+export const DEFAULT_DEPTH = 2;
+export const MAX_DEPTH = 4;
+
+export class GraphWalker {
+  private profiles = new Map<string, Promise<EntityProfile>>();
+  private entities = new Map<string, Entity>();
+
+  private asOf?: string;
+  private includeEnded: boolean;
+  private limits: GraphLimits;
+
+  constructor(
+    private client: MaasvClient,
+    opts: WalkOptions = {},
+  ) {
+    this.asOf = opts.asOf;
+    this.includeEnded = opts.includeEnded === true;
+    this.limits = opts.limits ?? DEFAULT_LIMITS;
+  }
+
+  /** The entity's profile with only the relationships valid at the walk's instant. */
+  async profile(entityId: string): Promise<EntityProfile> {
+    let p = this.profiles.get(entityId);
+    if (!p) {
+      const at = this.asOf ?? new Date().toISOString();
+      const includeEnded = this.includeEnded || !!this.asOf;
+      p = this.client.getEntityProfile(entityId, { includeEnded }).then((profile) => {
+        this.remember(profile);
+        if (this.includeEnded) return profile;
+        const relationships: Record<string, Relationship[]> = {};
+        for (const [predicate, rels] of Object.entries(profile.relationships)) {
+          const valid = rels.filter((rel) => isValidAt(rel, at));
+          if (valid.length) relationships[predicate] = valid;
+        }
+        return { ...profile, relationships };
+      });
+      this.profiles.set(entityId, p);
+    }
+    return p;
+  }
+
+  /** Every relationship change for an entity, ended ones included, oldest first. */
+  async timeline(entityId: string): Promise<TimelineEvent[]> {
+    const profile = await this.client.getEntityProfile(entityId, { includeEnded: true });
+    this.remember(profile);
+    return buildTimeline(profile);
+  }
+
+  entity(id: string): Entity | null {
+    return this.entities.get(id) ?? null;
+  }
+
+  /** Breadth-first neighborhood of `rootId` up to `depth` hops. */
+  async neighbors(rootId: string, depth: number, filters: TraversalFilters = {}): Promise<Subgraph> {
+    const root = await this.profile(rootId);
+    const result: Subgraph = {
+      nodes: new Map([[rootId, { entity: root.entity, depth: 0 }]]),
+      edges: [],
+      truncated: false,
+    };
+    const seenEdges = new Set<string>();
+    let frontier = [rootId];
+
+    for (let d = 1; d <= Math.min(depth, MAX_DEPTH) && frontier.length; d++) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        for (const { rel, other } of await this.edgesOf(id, filters)) {
+          if (result.edges.length >= this.limits.maxEdges) {
+            result.truncated = true;
+            break;
+          }
+          if (other && !result.nodes.has(other)) {
+            if (result.nodes.size >= this.limits.maxNodes) {
+              result.truncated = true;
+              continue;
+            }
+            result.nodes.set(other, { entity: this.entity(other), depth: d });
+            next.push(other);
+          }
+          if (!seenEdges.has(rel.id)) {
+            seenEdges.add(rel.id);
+            result.edges.push(rel);
+          }
+        }
+      }
+      frontier = next;
+    }
+    return result;
+  }
+
+  /**
+   * Shortest paths between two entities (up to `maxPaths`), found by BFS
+   * that records every shortest-distance parent of each node.
+   */
+  async paths(
+    fromId: string,
+    toId: string,
+    maxDepth: number,
+    filters: TraversalFilters = {},
+    maxPaths = 3,
+  ): Promise<Relationship[][]> {
+    if (fromId === toId) return [[]];
+    const dist = new Map<string, number>([[fromId, 0]]);
+    const parents = new Map<string, Array<{ from: string; rel: Relationship }>>();
+    let frontier = [fromId];
+    let expanded = 0;
+
+    for (let d = 1; d <= Math.min(maxDepth, MAX_DEPTH) && frontier.length; d++) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        if (++expanded > this.limits.maxNodes) break;
+        for (const { rel, other } of await this.edgesOf(id, filters)) {
+          if (!other) continue;
+          const known = dist.get(other);
+          if (known === undefined) {
+            dist.set(other, d);
+            next.push(other);
+          }
+          if ((known ?? d) === d) {
+            const list = parents.get(other) ?? [];
+            list.push({ from: id, rel });
+            parents.set(other, list);
+          }
+        }
+      }
+      if (dist.has(toId)) break;
+      frontier = next;
+    }
+    if (!dist.has(toId)) return [];
+
+    // Walk parents back from the target to enumerate shortest paths
+    const out: Relationship[][] = [];
+    const walk = (node: string, suffix: Relationship[]) => {
+      if (out.length >= maxPaths) return;
+      if (node === fromId) {
+        out.push(suffix);
+        return;
+      }
+      for (const { from, rel } of parents.get(node) ?? []) {
+        walk(from, [rel, ...suffix]);
+      }
+    };
+    walk(toId, []);
+    return out;
+  }
+
+  /** The given entities plus every edge that connects two of them. */
+  async subgraph(ids: string[], filters: TraversalFilters = {}): Promise<Subgraph> {
+    const wanted = ids.slice(0, this.limits.maxNodes);
+    const result: Subgraph = {
+      nodes: new Map(),
+      edges: [],
+      truncated: ids.length > wanted.length,
+    };
+    const members = new Set(wanted);
+    const seenEdges = new Set<string>();
+
+    for (const id of wanted) {
+      const profile = await this.profile(id);
+      result.nodes.set(id, { entity: profile.entity, depth: 0 });
+      for (const { rel, other } of await this.edgesOf(id, { predicates: filters.predicates })) {
+        if (!other || !members.has(other) || seenEdges.has(rel.id)) continue;
+        if (result.edges.length >= this.limits.maxEdges) {
+          result.truncated = true;
+          break;
+        }
+        seenEdges.add(rel.id);
+        result.edges.push(rel);
+      }
+    }
+    return result;
+  }
+
+  private remember(profile: EntityProfile): void {
+    this.entities.set(profile.entity.id, profile.entity);
+    for (const e of profile.related_entities) this.entities.set(e.id, e);
+  }
+
+  /** Relationships touching `id`, with the entity on the other end (null for literal values). */
+  private async edgesOf(
+    id: string,
+    filters: TraversalFilters,
+  ): Promise<Array<{ rel: Relationship; other: string | null }>> {
+    const profile = await this.profile(id);
+    const out: Array<{ rel: Relationship; other: string | null }> = [];
+    for (const [predicate, rels] of Object.entries(profile.relationships)) {
+      if (filters.predicates?.length && !filters.predicates.includes(predicate)) continue;
+      for (const rel of rels) {
+        const other = rel.subject_id === id ? rel.object_id : rel.subject_id;
+        if (other && filters.entityTypes?.length) {
+          const type = this.entity(other)?.entity_type;
+          if (type && !filters.entityTypes.includes(type)) continue;
+        }
+        out.push({ rel, other });
+      }
+    }
+    return out;
+  }
+}
+
+// --- Time ---
+
+export interface TimelineEvent {
+  date: string;
+  change: "started" | "ended";
+  rel: Relationship;
+}
+
+/** True if `rel` held at `at`: valid_from <= at < valid_to. */
+export function isValidAt(rel: Relationship, at: string): boolean {
+  const t = Date.parse(at);
+  if (rel.valid_from && Date.parse(rel.valid_from) > t) return false;
+  return !rel.valid_to || Date.parse(rel.valid_to) > t;
+}
+
+/** Parse a user-supplied date; returns a normalized ISO string or null. */
+export function parseDate(value: string): string | null {
+  const t = Date.parse(value);
+  return Number.isNaN(t) ? null : new Date(t).toISOString();
+}
+
+/** Every start and end among an entity's relationships, oldest first. */
+function buildTimeline(profile: EntityProfile): TimelineEvent[] {
+  const events: TimelineEvent[] = [];
+  for (const rels of Object.values(profile.relationships)) {
+    for (const rel of rels) {
+      if (rel.valid_from) events.push({ date: rel.valid_from, change: "started", rel });
+      if (rel.valid_to) events.push({ date: rel.valid_to, change: "ended", rel });
+    }
+  }
+  return events.sort((a, b) => Date.parse(a.date) - Date.parse(b.date));
+}
+
+// --- Rendering ---
+
+export function formatEdge(rel: Relationship, walker: GraphWalker): string {
+  const subject = rel.subject_name ?? walker.entity(rel.subject_id)?.name ?? rel.subject_id;
+  const object = rel.object_id
+    ? (rel.object_name ?? walker.entity(rel.object_id)?.name ?? rel.object_id)
+    : `"${rel.object_value}"`;
+  return `${subject} —${rel.predicate}→ ${object}`;
+}
+
+/** "since 2024-01-05" for open relationships, "2024-01-05 → 2025-03-01, ended" for closed ones. */
+export function formatValidity(rel: Relationship, now = new Date().toISOString()): string {
+  const from = rel.valid_from ? day(rel.valid_from) : "?";
+  if (!rel.valid_to) return `since ${from}`;
+  const ended = Date.parse(rel.valid_to) <= Date.parse(now);
+  return `${from} → ${day(rel.valid_to)}${ended ? ", ended" : ""}`;
+}
+
+export function formatNode(id: string, walker: GraphWalker): string {
+  const e = walker.entity(id);
+  return e ? `${e.name} (${e.entity_type}) [${id}]` : id;
+}
+
+export function formatNeighbors(rootId: string, graph: Subgraph, walker: GraphWalker): string {
+  const byDepth = new Map<number, string[]>();
+  for (const [id, { depth }] of graph.nodes) {
+    if (depth === 0) continue;
+    byDepth.set(depth, [...(byDepth.get(depth) ?? []), formatNode(id, walker)]);
+  }
+  const lines = [
+    `${formatNode(rootId, walker)} — ${graph.nodes.size - 1} connected entities, ${graph.edges.length} relationships`,
+  ];
+  for (const [depth, nodes] of [...byDepth].sort(([a], [b]) => a - b)) {
+    lines.push(`Depth ${depth}: ${nodes.join(", ")}`);
+  }
+  if (graph.edges.length) {
+    lines.push("Relationships:");
+    for (const rel of graph.edges) lines.push(`- ${formatEdge(rel, walker)}`);
+  }
+  if (graph.truncated) lines.push("(truncated — narrow with predicate/entity_type filters or lower depth)");
+  return lines.join("\n");
+}
+
+export function formatPaths(paths: Relationship[][], walker: GraphWalker): string {
+  return paths
+    .map((path, i) => `${i + 1}. ${path.map((rel) => formatEdge(rel, walker)).join(" | ")}`)
+    .join("\n");
+}
+
+export function formatSubgraph(graph: Subgraph, walker: GraphWalker): string {
+  const lines = [`${graph.nodes.size} entities, ${graph.edges.length} relationships`];
+  lines.push(`Entities: ${[...graph.nodes.keys()].map((id) => formatNode(id, walker)).join(", ")}`);
+  for (const rel of graph.edges) lines.push(`- ${formatEdge(rel, walker)}`);
+  if (graph.truncated) lines.push("(truncated)");
+  return lines.join("\n");
+}
+
+export function formatTimeline(events: TimelineEvent[], walker: GraphWalker, limit = 50): string {
+  const shown = events.slice(-limit);
+  const lines = shown.map(
+    (e) => `${day(e.date)} ${e.change === "started" ? "+" : "-"} ${formatEdge(e.rel, walker)} [${e.rel.id}]`,
+  );
+  if (events.length > shown.length) {
+    lines.unshift(`(${events.length - shown.length} earlier changes omitted)`);
+  }
+  return lines.join("\n");
+}
+
+function day(iso: string): string {
+  return iso.slice(0, 10);
+}
@@ -14,13 +14,88 @@
  * maasv-server owns embeddings. This plugin sends raw text.
  */
 
-import { MaasvClient } from "./client.js";
+import {
+  createReadStream,
+  createWriteStream,
+  readFileSync,
+  writeFileSync,
+  type WriteStream,
+} from "node:fs";
+import { MaasvClient, isUnavailableError } from "./client.js";
+import { WriteQueue, type QueuedWrite } from "./outbox.js";
+import { FallbackStore } from "./fallback.js";
+import { RecallCache, formatCacheStats, readCacheStats } from "./cache.js";
+import { defaultWorkspaceDir, resolveStateDir } from "./state.js";
+import { MigrationLedger, formatMigrationReport, migrateFlatFiles } from "./migrate.js";
+import { namespaceContext, resolveNamespace } from "./namespace.js";
+import {
+  MergeLog,
+  executeMerge,
+  findDuplicateCandidates,
+  formatCandidates,
+  formatMergePlan,
+  formatMergeRecord,
+  planMerge,
+  undoMerge,
+} from "./entities.js";
+import {
+  RECORD_TYPES,
+  exportBundle,
+  formatImportSummary,
+  importBundle,
+  type ConflictPolicy,
+  type RecordType,
+} from "./bundle.js";
+import {
+  contextEntries,
+  dropContextEntries,
+  fitContext,
+  isEntryFor,
+  renderPastExperience,
+  renderStructuredRecall,
+} from "./recall.js";
+import { RecallDedup, entryKey, memoryKey } from "./dedup.js";
+import { buildRecallQuery, trivialReason } from "./query.js";
+import {
+  VISUAL_FORMATS,
+  collectGraph,
+  renderGraph,
+  type VisualFormat,
+  type VisualOptions,
+} from "./visualize.js";
+import { createTokenCounter } from "./tokens.js";
+import { PendingOutcomes, ToolCallTracker, formatPending } from "./wisdom.js";
+import {
+  TREND_WINDOWS,
+  buildWisdomReport,
+  formatWisdomReport,
+  type TrendWindow,
+} from "./analytics.js";
+import {
+  normalizeContent,
+  normalizeToolResultMessage,
+  type NormalizeOptions,
+} from "./content.js";
+import {
+  CaptureState,
+  chunkTurns,
+  deriveTopic,
+  formatTurns,
+  planCapture,
+  type CaptureCursor,
+  type Turn,
+} from "./capture.js";
+import { ALL_DETECTORS, Redactor, formatCounts, logRedaction, type RedactionMode } from "./redact.js";
 import { createMemorySearch } from "./tools/memory-search.js";
 import { createMemoryStore } from "./tools/memory-store.js";
 import { createMemoryForget } from "./tools/memory-forget.js";
+import { createMemoryUpdate } from "./tools/memory-update.js";
+import { createMemoryHistory, formatHistory } from "./tools/memory-history.js";
+import { createMemoryGet, formatMemoryRecord } from "./tools/memory-get.js";
+import { createMemoryList, formatMemoryPage } from "./tools/memory-list.js";
 import { createMemoryGraph } from "./tools/memory-graph.js";
 import { createMemoryWisdom } from "./tools/memory-wisdom.js";
-import type { PluginConfig } from "./types.js";
+import type { ListRequest, MemorySort, PluginConfig, ScoredMemory } from "./types.js";
 
 const DEFAULT_CONFIG: PluginConfig = {
   serverUrl: "http://127.0.0.1:18790",
@@ -28,10 +103,65 @@ const DEFAULT_CONFIG: PluginConfig = {
   autoCapture: true,
   maxRecallResults: 5,
   maxRecallTokens: 2000,
+  tokenCounter: "bpe",
+  recallFormat: "tiered",
   enableGraph: true,
   enableWisdom: false,
+  requestTimeoutMs: 10_000,
+  recallTimeoutMs: 3_000,
+  extractTimeoutMs: 120_000,
+  maxRetries: 2,
+  breakerThreshold: 5,
+  breakerCooldownMs: 30_000,
+  offlineQueue: true,
+  queueMaxItems: 500,
+  queueFlushIntervalMs: 30_000,
+  incrementalCapture: true,
+  captureOverlapTurns: 2,
+  captureChunkTokens: 3000,
+  captureToolOutputs: false,
+  toolOutputMaxChars: 500,
+  namespaceFrom: "config",
+  namespaceMap: {},
+  redaction: {
+    enabled: true,
+    mode: "mask",
+    // Secrets only by default; emails and phone numbers are often facts worth keeping
+    detectors: ["private_key", "api_key", "password", "credit_card", "high_entropy"],
+    rules: [],
+  },
+  autoWisdom: false,
+  autoWisdomAllow: [],
+  // The plugin's own tools would log wisdom about logging wisdom
+  autoWisdomDeny: ["memory_*"],
+  recallWisdom: true,
+  maxWisdomResults: 5,
+  maxWisdomTokens: 500,
+  wisdomReminders: true,
+  wisdomOutcomeTimeoutMs: 0,
+  fallbackCache: false,
+  fallbackMaxMemories: 2000,
+  fallbackMaxProfiles: 200,
+  recallCache: true,
+  recallQueryTurns: 4,
+  recallMinRelevance: 0,
+  recallSkipTrivial: true,
+  recallDedup: true,
+  recallReinjectEveryTurns: 0,
+  recallCacheTtlMs: 30_000,
+  recallCacheMaxEntries: 200,
 };
 
+// Visualization export defaults (CLI and maasv.graph)
+const DEFAULT_GRAPH_DEPTH = 2;
+const DEFAULT_GRAPH_MAX_NODES = 500;
+const DEFAULT_GRAPH_MAX_EDGES = 2000;
+
+interface GatewayRequest {
+  params?: Record<string, unknown>;
+  respond: (ok: boolean, data: unknown) => void;
+}
+
 export default {
   id: "memory-maasv",
   name: "Memory (maasv)",
@@ -41,9 +171,76 @@ export default {
 
   register(api: any) {
     const rawConfig = api.pluginConfig ?? {};
-    const config: PluginConfig = { ...DEFAULT_CONFIG, ...rawConfig };
-    const client = new MaasvClient(config);
+    const config: PluginConfig = {
+      ...DEFAULT_CONFIG,
+      ...rawConfig,
+      redaction: { ...DEFAULT_CONFIG.redaction, ...rawConfig.redaction },
+    };
+    const fallback = config.fallbackCache
+      ? new FallbackStore(resolveStateDir(config), config.fallbackMaxMemories, config.fallbackMaxProfiles)
+      : undefined;
+    const recallCache = config.recallCache
+      ? new RecallCache(config.recallCacheTtlMs, config.recallCacheMaxEntries, resolveStateDir(config))
+      : undefined;
+    const client = new MaasvClient(config, fallback, recallCache);
     const logger = api.logger;
+    const tokenCounter = createTokenCounter(config.tokenCounter);
+    const redactor = new Redactor(config.redaction);
+    for (const rule of redactor.invalidRules) {
+      logger.warn(`Ignoring redaction rule "${rule.name}": ${rule.error}`);
+    }
+    const queue = config.offlineQueue
+      ? new WriteQueue(resolveStateDir(config), config.queueMaxItems)
+      : undefined;
+    if (fallback && !queue) {
+      logger.warn("fallbackCache is enabled without offlineQueue; writes made while maasv-server is down will be lost");
+    }
+    const merges = new MergeLog(resolveStateDir(config));
+    const pendingOutcomes = new PendingOutcomes(resolveStateDir(config));
+    // Reminders prepared at agent_end, shown at the session's next turn
+    const outcomeReminders = new Map<string, string>();
+    const recallDedup = config.recallDedup ? new RecallDedup(config.recallReinjectEveryTurns) : undefined;
+    const captureState = config.incrementalCapture
+      ? new CaptureState(resolveStateDir(config))
+      : null;
+    let flushTimer: ReturnType<typeof setInterval> | null = null;
+
+    // Replay queued writes once the server answers health() again
+    async function flushQueue(): Promise<void> {
+      if (!queue || queue.size() === 0) return;
+      try {
+        const health = await client.health();
+        if (health.status !== "healthy") return;
+      } catch {
+        return;
+      }
+      const result = await queue.flush(client);
+      if (result.sent > 0) {
+        logger.info(`Replayed ${result.sent} queued maasv writes (${result.remaining} remaining)`);
+      }
+      for (const { item, error } of result.rejected) {
+        logger.warn(`Dropped queued ${item.op} ${item.id}: ${error}`);
+      }
+    }
+
+    // Client scoped to the namespace of the agent/session behind a hook or tool call
+    function scopedClient(event: any, ctx: any): MaasvClient {
+      return client.withNamespace(
+        resolveNamespace(config, namespaceContext(event, ctx)),
+        config.sharedNamespace,
+      );
+    }
+
+    function enqueueWrite(write: QueuedWrite, namespace?: string): void {
+      if (!queue) return;
+      const { item, duplicate, evicted } = queue.enqueue(write, namespace);
+      if (!duplicate) {
+        logger.info(`Queued ${item.op} ${item.id} until maasv-server is reachable`);
+      }
+      if (evicted) {
+        logger.warn(`Offline queue full; evicted oldest ${evicted.op} ${evicted.id}`);
+      }
+    }
 
     // --- Background Service ---
 
@@ -52,109 +249,471 @@ export default {
       async start() {
         try {
           const health = await client.health();
-          logger.info(`maasv connected: ${health.status}`);
+          if (health.mode === "degraded") {
+            logger.warn(
+              `maasv-server at ${config.serverUrl} is unavailable (${health.error}); serving reads from the local fallback cache`,
+            );
+          } else {
+            logger.info(`maasv connected: ${health.status}`);
+          }
         } catch (err) {
           logger.error(
             `Failed to connect to maasv-server at ${config.serverUrl}: ${(err as Error).message}`,
           );
         }
+        if (queue) {
+          flushTimer = setInterval(() => {
+            flushQueue().catch((err) =>
+              logger.warn(`Queue replay failed: ${(err as Error).message}`),
+            );
+          }, config.queueFlushIntervalMs);
+          flushTimer.unref?.();
+          await flushQueue().catch(() => {});
+        }
       },
-      stop() {
+      async stop() {
+        if (flushTimer) clearInterval(flushTimer);
+        flushTimer = null;
+        recallCache?.flushStats();
+        await fallback?.flush();
         logger.info("maasv memory service stopped");
       },
     });
 
     // --- Core Memory Tools (always registered) ---
 
-    api.registerTool(createMemorySearch(client));
-    api.registerTool(createMemoryStore(client));
-    api.registerTool(createMemoryForget(client));
+    // Registered as factories so each agent gets a client scoped to its namespace
+    api.registerTool((ctx: any) => createMemorySearch(scopedClient(null, ctx)), {
+      name: "memory_search",
+    });
+    api.registerTool(
+      (ctx: any) => createMemoryStore(scopedClient(null, ctx), queue, redactor, logger),
+      { name: "memory_store" },
+    );
+    api.registerTool((ctx: any) => createMemoryForget(scopedClient(null, ctx)), {
+      name: "memory_forget",
+    });
+    api.registerTool((ctx: any) => createMemoryUpdate(scopedClient(null, ctx), redactor, logger), {
+      name: "memory_update",
+    });
+    api.registerTool((ctx: any) => createMemoryHistory(scopedClient(null, ctx)), {
+      name: "memory_history",
+    });
+    api.registerTool((ctx: any) => createMemoryGet(scopedClient(null, ctx)), {
+      name: "memory_get",
+    });
+    api.registerTool((ctx: any) => createMemoryList(scopedClient(null, ctx)), {
+      name: "memory_list",
+    });
 
     // --- Optional: Knowledge Graph ---
 
     if (config.enableGraph) {
-      api.registerTool(createMemoryGraph(client), { optional: true });
+      api.registerTool((ctx: any) => createMemoryGraph(scopedClient(null, ctx), merges, queue), {
+        name: "memory_graph",
+        optional: true,
+      });
     }
 
     // --- Optional: Wisdom ---
 
     if (config.enableWisdom) {
-      api.registerTool(createMemoryWisdom(client), { optional: true });
+      api.registerTool(
+        (ctx: any) =>
+          createMemoryWisdom(scopedClient(null, ctx), pendingOutcomes, sessionKeyOf(null, ctx) ?? undefined),
+        {
+          name: "memory_wisdom",
+          optional: true,
+        },
+      );
     }
 
     // --- Auto-Recall Hook (before_agent_start) ---
 
-    api.on("before_agent_start", async (event: any) => {
-      if (!config.autoRecall) return;
+    api.on("before_agent_start", async (event: any, ctx?: any) => {
+      const sessionKey = sessionKeyOf(event, ctx) ?? "default";
+      const reminder = outcomeReminders.get(sessionKey) ?? null;
+      outcomeReminders.delete(sessionKey);
+      if (!config.autoRecall) return reminder ? { prependContext: reminder } : undefined;
 
       // Extract the user's latest message
       const userMessage = extractUserMessage(event);
-      if (!userMessage) return;
+      if (!userMessage) return reminder ? { prependContext: reminder } : undefined;
 
-      try {
-        // Use maasv's tiered context — returns pre-prioritized,
-        // identity > family > preference > project > relevant content
-        const { context } = await client.getContext({
-          query: userMessage,
+      const skip = config.recallSkipTrivial ? trivialReason(userMessage) : null;
+      if (skip) {
+        logger.debug?.(`Auto-recall skipped: ${skip} message`);
+        return reminder ? { prependContext: reminder } : undefined;
+      }
+      // Turns before the latest user message, which the query is built from
+      const prior = extractTurns(event, { toolOutputs: false });
+      if (prior.at(-1)?.role === "user") prior.pop();
+      const { query, expansion } = buildRecallQuery(userMessage, prior, config.recallQueryTurns);
+      if (expansion) logger.debug?.(`Auto-recall query expanded from prior turns: ${expansion}`);
+
+      // Without a real session key, "default" would mix unrelated conversations
+      const dedupSession = recallDedup ? sessionKeyOf(event, ctx) : null;
+      if (recallDedup && dedupSession) {
+        const messages = event?.messages ?? event?.context?.messages;
+        const full = recallDedup.beginTurn(dedupSession, Array.isArray(messages) ? messages.length : undefined);
+        if (full) logger.debug?.(`Auto-recall injecting all memories (${full})`);
+      }
+
+      const scoped = scopedClient(event, ctx);
+      const [memory, experience] = await Promise.all([
+        (config.recallFormat === "structured"
+          ? recallStructured(scoped, query, dedupSession)
+          : recallTiered(scoped, query, dedupSession)
+        ).catch((err) => {
+          logger.warn(`Auto-recall failed: ${(err as Error).message}`);
+          return null;
+        }),
+        recallWisdom(scoped, query).catch((err) => {
+          logger.warn(`Wisdom recall failed: ${(err as Error).message}`);
+          return null;
+        }),
+      ]);
+      const blocks = [memory, experience, reminder].filter((b): b is string => !!b);
+      if (blocks.length) return { prependContext: blocks.join("\n\n") };
+    });
+
+    // Use maasv's tiered context — returns pre-prioritized,
+    // identity > family > preference > project > relevant content
+    async function recallTiered(
+      scoped: MaasvClient,
+      query: string,
+      session: string | null,
+    ): Promise<string | null> {
+      const relevantLimit = Math.ceil(config.maxRecallResults / 2);
+      const [{ context: raw, fallback }, lowRelevance] = await Promise.all([
+        scoped.getContext({
+          query,
           core_limit: config.maxRecallResults,
-          relevant_limit: Math.ceil(config.maxRecallResults / 2),
+          relevant_limit: relevantLimit,
           use_semantic: true,
-        });
-
-        if (context && context.length > 0) {
-          // Enforce maxRecallTokens (~4 chars per token)
-          const maxChars = config.maxRecallTokens * 4;
-          const truncated =
-            context.length > maxChars
-              ? context.slice(0, maxChars) + "\n[truncated]"
-              : context;
-          return {
-            prependContext: `<long_term_memory>\n${truncated}\n</long_term_memory>`,
-          };
-        }
-      } catch (err) {
-        logger.warn(`Auto-recall failed: ${(err as Error).message}`);
+        }),
+        lowRelevanceMemories(scoped, query, relevantLimit),
+      ]);
+      let context = raw;
+      if (context && lowRelevance.length > 0) {
+        // Tiered context carries no scores; drop the entries that render a
+        // memory the scored search ranked below the threshold
+        const filtered = dropContextEntries(context, (entry) => lowRelevance.some((m) => isEntryFor(entry, m.content)));
+        logBelowThreshold(filtered.dropped);
+        context = filtered.text;
       }
-    });
+      if (context && session && recallDedup) {
+        const filtered = dropContextEntries(context, (entry) => recallDedup.isSeen(session, entryKey(entry)));
+        logAlreadyInjected(filtered.dropped);
+        context = filtered.text;
+      }
+      if (!context) return null;
+
+      // Enforce maxRecallTokens on whole entries, dropping lowest tiers first
+      const fitted = fitContext(context, config.maxRecallTokens, tokenCounter);
+      logOmitted(fitted.kept, fitted.omitted);
+      if (!fitted.text) return null;
+      if (session) recallDedup?.markSeen(session, contextEntries(fitted.text).map(entryKey));
+      return `<long_term_memory${fallbackAttr(fallback)}>\n${fitted.text}\n</long_term_memory>`;
+    }
+
+    // Ranked search results, one <memory> per entry with its id and metadata
+    async function recallStructured(
+      scoped: MaasvClient,
+      query: string,
+      session: string | null,
+    ): Promise<string | null> {
+      const { results: found, fallback } = await scoped.searchMemories({
+        query,
+        limit: config.maxRecallResults,
+      });
+      const relevant = found.filter((m) => !isBelowThreshold(m));
+      logBelowThreshold(found.length - relevant.length);
+      const results =
+        session && recallDedup ? relevant.filter((m) => !recallDedup.isSeen(session, memoryKey(m))) : relevant;
+      logAlreadyInjected(relevant.length - results.length);
+      if (results.length === 0) return null;
+
+      const fitted = renderStructuredRecall(results, config.maxRecallTokens, tokenCounter);
+      logOmitted(fitted.kept, fitted.omitted);
+      if (!fitted.text) return null;
+      if (session) {
+        const injected = results.filter((m) => fitted.text.includes(`id="${m.id}"`));
+        recallDedup?.markSeen(session, injected.map(memoryKey));
+      }
+      return [
+        `<long_term_memory format="structured"${fallbackAttr(fallback)}>`,
+        `Cite memories by id. Pass an id to memory_update to correct a memory or memory_forget to delete it.`,
+        fitted.text,
+        `</long_term_memory>`,
+      ].join("\n");
+    }
+
+    // Similar past actions with their outcomes, so earlier failures aren't repeated
+    async function recallWisdom(scoped: MaasvClient, query: string): Promise<string | null> {
+      if (!config.recallWisdom || !(config.enableWisdom || config.autoWisdom)) return null;
+      const { results } = await scoped.searchWisdom(query, config.maxWisdomResults);
+      if (results.length === 0) return null;
+
+      const fitted = renderPastExperience(results, config.maxWisdomTokens, tokenCounter);
+      if (fitted.omitted > 0) {
+        logger.debug?.(
+          `Wisdom recall kept ${fitted.kept} entries, omitted ${fitted.omitted} over ${config.maxWisdomTokens} tokens`,
+        );
+      }
+      if (!fitted.text) return null;
+      return [
+        `<past_experience>`,
+        `Similar actions taken before and how they turned out. Don't repeat an approach whose outcome was "failed" unless something has changed.`,
+        fitted.text,
+        `</past_experience>`,
+      ].join("\n");
+    }
+
+    // Only scored results can be judged; unscored ones (e.g. cached while offline) are kept
+    function isBelowThreshold(m: ScoredMemory): boolean {
+      return config.recallMinRelevance > 0 && m.relevance !== undefined && m.relevance < config.recallMinRelevance;
+    }
+
+    // Search results for the tiered query that fall under recallMinRelevance
+    async function lowRelevanceMemories(scoped: MaasvClient, query: string, limit: number): Promise<ScoredMemory[]> {
+      if (config.recallMinRelevance <= 0) return [];
+      try {
+        const { results } = await scoped.searchMemories({ query, limit });
+        return results.filter(isBelowThreshold);
+      } catch {
+        // Unfiltered context beats none
+        return [];
+      }
+    }
+
+    function logBelowThreshold(dropped: number): void {
+      if (dropped === 0) return;
+      logger.debug?.(`Auto-recall dropped ${dropped} memories below recallMinRelevance ${config.recallMinRelevance}`);
+    }
+
+    function logAlreadyInjected(skipped: number): void {
+      if (skipped === 0) return;
+      logger.debug?.(`Auto-recall skipped ${skipped} memories already injected this session`);
+    }
+
+    function logOmitted(kept: number, omitted: number): void {
+      if (omitted === 0) return;
+      logger.debug?.(
+        `Auto-recall kept ${kept} memories, omitted ${omitted} over ${config.maxRecallTokens} tokens`,
+      );
+    }
+
+    // Compaction drops earlier injections from the transcript; start the session over
+    if (recallDedup) {
+      api.on("after_compaction", (event: any, ctx?: any) => {
+        const sessionKey = sessionKeyOf(event, ctx);
+        if (sessionKey) recallDedup.reset(sessionKey);
+      });
+      api.on("session_end", (event: any, ctx?: any) => {
+        const sessionKey = sessionKeyOf(event, ctx);
+        if (sessionKey) recallDedup.reset(sessionKey);
+      });
+    }
 
     // --- Auto-Capture Hook (agent_end) ---
 
-    api.on("agent_end", async (event: any) => {
+    api.on("agent_end", async (event: any, ctx?: any) => {
       if (!config.autoCapture) return;
 
-      try {
-        const conversationText = extractConversation(event);
-        if (!conversationText || conversationText.length < 50) return;
-
-        // Send to maasv extraction pipeline
-        // Handles entity extraction, relationship building, memory storage,
-        // dedup, confidence scoring, and graph updates internally
-        await client.extract(conversationText);
-      } catch (err) {
-        logger.warn(`Auto-capture failed: ${(err as Error).message}`);
+      const turns = extractTurns(event, {
+        toolOutputs: config.captureToolOutputs,
+        maxToolChars: config.toolOutputMaxChars,
+      });
+      if (turns.length === 0) return;
+
+      // Only send turns past this session's high-water mark
+      const sessionKey = sessionKeyOf(event, ctx);
+      const cursor = sessionKey && captureState ? captureState.get(sessionKey) : null;
+      const plan = planCapture(turns, cursor, config.captureOverlapTurns);
+      if (formatTurns(plan.fresh).length < 50) return;
+
+      const topic = deriveTopic(plan.fresh);
+      const scoped = scopedClient(event, ctx);
+      const chunks = chunkTurns(plan, config.captureChunkTokens, tokenCounter);
+
+      // Advanced chunk by chunk, so a failure keeps the progress made before it
+      let sent: CaptureCursor | null = null;
+      for (const [i, chunk] of chunks.entries()) {
+        // Strip secrets/PII before the text reaches the extraction LLM or the queue
+        const redacted = redactor.redact(chunk.text);
+        logRedaction(logger, redacted, "auto-capture");
+        const text = redacted.text;
+
+        try {
+          // Send to maasv extraction pipeline
+          // Handles entity extraction, relationship building, memory storage,
+          // dedup, confidence scoring, and graph updates internally
+          await scoped.extract(text, topic);
+        } catch (err) {
+          if (!queue || !isUnavailableError(err)) {
+            // Keep the cursor at the last chunk sent so the rest is retried next run
+            logger.warn(
+              `Auto-capture failed on chunk ${i + 1}/${chunks.length}: ${(err as Error).message}`,
+            );
+            break;
+          }
+          enqueueWrite({ op: "extract", payload: { text, topic } }, scoped.currentNamespace);
+        }
+        sent = chunk.next ?? sent;
       }
+
+      if (sent && sessionKey && captureState) captureState.set(sessionKey, sent);
     });
 
+    // --- Pending Wisdom Outcomes (agent_end) ---
+
+    if (config.enableWisdom) {
+      api.on("agent_end", async (event: any, ctx?: any) => {
+        const sessionKey = sessionKeyOf(event, ctx) ?? "default";
+
+        if (config.wisdomOutcomeTimeoutMs > 0) {
+          const expired = pendingOutcomes.expired(sessionKey, config.wisdomOutcomeTimeoutMs);
+          const scoped = scopedClient(event, ctx);
+          let closed = 0;
+          for (const entry of expired) {
+            try {
+              await scoped.recordOutcome(entry.id, "unknown", "No outcome recorded before timeout");
+              pendingOutcomes.resolve(entry.id);
+              closed++;
+            } catch (err) {
+              // Server unreachable: keep the entry and try again next turn.
+              // Rejected (e.g. the entry was deleted): retrying won't help.
+              const retry = isUnavailableError(err);
+              if (!retry) pendingOutcomes.resolve(entry.id);
+              logger.warn(
+                `Failed to close wisdom entry ${entry.id}${retry ? " (will retry)" : ""}: ${(err as Error).message}`,
+              );
+            }
+          }
+          if (closed) {
+            logger.info(`memory-maasv: marked ${closed} wisdom entries "unknown" after timeout`);
+          }
+        }
+
+        const open = pendingOutcomes.list(sessionKey);
+        if (!config.wisdomReminders || open.length === 0) return;
+        outcomeReminders.set(
+          sessionKey,
+          [
+            `<pending_outcomes>`,
+            `These logged decisions have no outcome yet. When you know how one went, record it with memory_wisdom action "outcome".`,
+            formatPending(open),
+            `</pending_outcomes>`,
+          ].join("\n"),
+        );
+      });
+    }
+
+    // --- Auto-Wisdom Hooks (before_tool_call / after_tool_call) ---
+
+    if (config.autoWisdom) {
+      const tracker = new ToolCallTracker(
+        { allow: config.autoWisdomAllow, deny: config.autoWisdomDeny },
+        redactor,
+        config.toolOutputMaxChars,
+        logger,
+      );
+      api.on("before_tool_call", (event: any, ctx?: any) => {
+        tracker.before(scopedClient(event, ctx), event, ctx);
+      });
+      api.on("after_tool_call", (event: any, ctx?: any) => {
+        tracker.after(event, ctx);
+      });
+    }
+
     // --- Gateway RPC Methods ---
 
+    // Gateway callers select a namespace with `params.namespace`
+    function gatewayClient(params: GatewayRequest["params"]): MaasvClient {
+      const ns = typeof params?.namespace === "string" ? params.namespace : config.namespace;
+      return client.withNamespace(ns, config.sharedNamespace);
+    }
+
     api.registerGatewayMethod(
       "maasv.status",
-      async ({ respond }: { respond: (ok: boolean, data: unknown) => void }) => {
+      async ({ params, respond }: GatewayRequest) => {
         try {
           const health = await client.health();
-          respond(true, health);
+          respond(true, {
+            ...health,
+            breaker: client.breakerStatus(),
+            namespace: gatewayClient(params).currentNamespace ?? null,
+          });
         } catch (err) {
-          respond(false, { error: (err as Error).message });
+          respond(false, {
+            error: (err as Error).message,
+            breaker: client.breakerStatus(),
+          });
         }
       },
     );
 
     api.registerGatewayMethod(
       "maasv.stats",
-      async ({ respond }: { respond: (ok: boolean, data: unknown) => void }) => {
+      async ({ params, respond }: GatewayRequest) => {
         try {
-          const s = await client.stats();
-          respond(true, s);
+          const s = await gatewayClient(params).stats();
+          respond(true, { ...s, recall_cache: recallCache?.stats() ?? null });
+        } catch (err) {
+          respond(false, { error: (err as Error).message });
+        }
+      },
+    );
+
+    api.registerGatewayMethod(
+      "maasv.graph",
+      async ({ params, respond }: GatewayRequest) => {
+        const p = (params ?? {}) as {
+          root?: string;
+          depth?: number;
+          entity_types?: string[];
+          predicates?: string[];
+          include_ended?: boolean;
+          max_nodes?: number;
+          max_edges?: number;
+        };
+        try {
+          const graph = await collectGraph(gatewayClient(params), {
+            root: p.root,
+            depth: p.depth ?? DEFAULT_GRAPH_DEPTH,
+            entityTypes: p.entity_types,
+            predicates: p.predicates,
+            includeEnded: p.include_ended === true,
+            maxNodes: p.max_nodes ?? DEFAULT_GRAPH_MAX_NODES,
+            maxEdges: p.max_edges ?? DEFAULT_GRAPH_MAX_EDGES,
+          });
+          respond(true, graph);
+        } catch (err) {
+          respond(false, { error: (err as Error).message });
+        }
+      },
+    );
+
+    api.registerGatewayMethod(
+      "maasv.wisdom.report",
+      async ({ params, respond }: GatewayRequest) => {
+        const p = (params ?? {}) as {
+          since?: string;
+          until?: string;
+          action_type?: string;
+          window?: TrendWindow;
+          windows?: number;
+        };
+        try {
+          const report = await buildWisdomReport(gatewayClient(params), {
+            since: p.since,
+            until: p.until,
+            actionType: p.action_type,
+            window: p.window && TREND_WINDOWS.includes(p.window) ? p.window : "week",
+            windows: p.windows ?? 8,
+          });
+          respond(true, report);
         } catch (err) {
           respond(false, { error: (err as Error).message });
         }
@@ -167,7 +726,15 @@ export default {
       ({ program }: { program: any }) => {
         const maasv = program
           .command("maasv")
-          .description("maasv memory management");
+          .description("maasv memory management")
+          .option("--namespace <namespace>", "Memory namespace to read and write");
+
+        // Client scoped to --namespace (or the configured default namespace)
+        const cli = (): MaasvClient =>
+          client.withNamespace(
+            maasv.opts().namespace ?? config.namespace,
+            config.sharedNamespace,
+          );
 
         maasv
           .command("health")
@@ -176,9 +743,28 @@ export default {
             try {
               const health = await client.health();
               console.log(`Status: ${health.status}`);
+              if (health.mode === "degraded" && health.fallback) {
+                const f = health.fallback;
+                console.log(`Mode: degraded — reads served from the local fallback cache (${health.error})`);
+                console.log(
+                  `Fallback cache: ${f.memories} memories (${f.pending} pending), ${f.profiles} entity profiles`,
+                );
+              } else if (health.mode) {
+                console.log(`Mode: ${health.mode}`);
+              }
             } catch (err) {
               console.error(`Connection failed: ${(err as Error).message}`);
             }
+            const breaker = client.breakerStatus();
+            console.log(
+              `Circuit: ${breaker.state} (${breaker.consecutiveFailures} consecutive failures)`,
+            );
+            if (breaker.nextProbeAt) {
+              console.log(`Next probe: ${breaker.nextProbeAt}`);
+            }
+            if (breaker.lastError) {
+              console.log(`Last error: ${breaker.lastError}`);
+            }
           });
 
         maasv
@@ -186,11 +772,24 @@ export default {
           .description("Show detailed statistics")
           .action(async () => {
             try {
-              const s = await client.stats();
+              const s = await cli().stats();
               console.log(JSON.stringify(s, null, 2));
             } catch (err) {
               console.error(`Failed: ${(err as Error).message}`);
             }
+            // Hit counts come from the agent process, via the stats file it flushes
+            if (!recallCache?.statsPath) {
+              console.log("\nRecall cache: disabled");
+              return;
+            }
+            recallCache.flushStats();
+            const cached = readCacheStats(recallCache.statsPath);
+            if (!cached) {
+              console.log("\nRecall cache: no lookups recorded yet");
+              return;
+            }
+            console.log(`\nRecall cache (since ${cached.since}):`);
+            console.log(formatCacheStats(cached.methods));
           });
 
         maasv
@@ -199,7 +798,7 @@ export default {
           .option("-n, --limit <number>", "Max results", "5")
           .action(async (query: string, opts: { limit: string }) => {
             try {
-              const { results } = await client.searchMemories({
+              const { results } = await cli().searchMemories({
                 query,
                 limit: parseInt(opts.limit, 10),
               });
@@ -215,6 +814,499 @@ export default {
               console.error(`Search failed: ${(err as Error).message}`);
             }
           });
+
+        maasv
+          .command("get")
+          .description("Show the full record for a memory")
+          .argument("<id>", "Memory ID")
+          .action(async (id: string) => {
+            try {
+              console.log(formatMemoryRecord(await cli().getMemory(id)));
+            } catch (err) {
+              console.error(`Get failed: ${(err as Error).message}`);
+            }
+          });
+
+        maasv
+          .command("list")
+          .description("List memories with filters, sorted by recency, importance or access count")
+          .option("-c, --category <category>", "Filter by category")
+          .option("-s, --subject <subject>", "Filter by subject")
+          .option("--source <source>", "Filter by source")
+          .option("--min-confidence <number>", "Minimum confidence")
+          .option("--max-confidence <number>", "Maximum confidence")
+          .option("--created-after <date>", "Created on/after (ISO date)")
+          .option("--created-before <date>", "Created on/before (ISO date)")
+          .option("--updated-after <date>", "Updated on/after (ISO date)")
+          .option("--updated-before <date>", "Updated on/before (ISO date)")
+          .option("--sort <order>", "recency | importance | access_count", "recency")
+          .option("-n, --limit <number>", "Page size", "20")
+          .option("--offset <number>", "Skip this many memories", "0")
+          .option("--json", "Print raw JSON")
+          .action(async (opts: Record<string, string | boolean | undefined>) => {
+            const str = (key: string) => opts[key] as string | undefined;
+            const num = (key: string) =>
+              opts[key] !== undefined ? parseFloat(opts[key] as string) : undefined;
+            const req: ListRequest = {
+              category: str("category"),
+              subject: str("subject"),
+              source: str("source"),
+              min_confidence: num("minConfidence"),
+              max_confidence: num("maxConfidence"),
+              created_after: str("createdAfter"),
+              created_before: str("createdBefore"),
+              updated_after: str("updatedAfter"),
+              updated_before: str("updatedBefore"),
+              sort: str("sort") as MemorySort,
+              limit: num("limit"),
+              offset: num("offset"),
+            };
+            try {
+              const page = await cli().listMemories(req);
+              if (opts.json) {
+                console.log(JSON.stringify(page, null, 2));
+              } else if (page.results.length === 0) {
+                console.log("No memories found.");
+              } else {
+                console.log(formatMemoryPage(page.results, page.total, req));
+              }
+            } catch (err) {
+              console.error(`List failed: ${(err as Error).message}`);
+            }
+          });
+
+        maasv
+          .command("update")
+          .description("Supersede a memory with corrected content")
+          .argument("<id>", "Memory ID to update")
+          .argument("<content>", "New content")
+          .action(async (id: string, content: string) => {
+            const redacted = redactor.redact(content);
+            if (!redacted.text.trim()) {
+              console.error("Not updated: the content consisted entirely of redacted secrets or personal data.");
+              return;
+            }
+            if (redacted.matches.length > 0) {
+              console.log(`Redacted ${redacted.matches.length} item(s): ${formatCounts(redacted.counts)}`);
+            }
+            try {
+              const result = await cli().supersedeMemory(id, redacted.text.trim());
+              console.log(`Updated ${id} → ${result.memory_id}`);
+            } catch (err) {
+              console.error(`Update failed: ${(err as Error).message}`);
+            }
+          });
+
+        maasv
+          .command("history")
+          .description("Show the version history of a memory")
+          .argument("<id>", "ID of any version of the memory")
+          .action(async (id: string) => {
+            try {
+              console.log(formatHistory(await cli().getMemoryHistory(id)));
+            } catch (err) {
+              console.error(`History failed: ${(err as Error).message}`);
+            }
+          });
+
+        maasv
+          .command("redact")
+          .description("Dry run: show what the redaction pipeline would remove from a sample text")
+          .argument("[text]", "Sample text (or use --file)")
+          .option("-f, --file <path>", "Read sample text from a file")
+          .option("--mode <mode>", "mask | hash | drop (default: configured mode)")
+          .option("--all-detectors", "Enable every built-in detector for this run")
+          .action((text: string | undefined, opts: { file?: string; mode?: string; allDetectors?: boolean }) => {
+            const sample = opts.file ? readFileSync(opts.file, "utf8") : text;
+            if (!sample) {
+              console.error("Provide sample text or --file.");
+              return;
+            }
+            const dryRun = opts.allDetectors
+              ? new Redactor({ ...config.redaction, enabled: true, detectors: ALL_DETECTORS })
+              : new Redactor({ ...config.redaction, enabled: true });
+            const result = dryRun.redact(sample, (opts.mode as RedactionMode) ?? config.redaction.mode);
+            if (result.matches.length === 0) {
+              console.log("Nothing would be redacted.");
+              return;
+            }
+            for (const m of result.matches) {
+              console.log(`${m.detector.padEnd(14)} @${m.start}-${m.end}  ${m.value}`);
+            }
+            console.log(`\n${result.matches.length} item(s): ${formatCounts(result.counts)}`);
+            if (!config.redaction.enabled) {
+              console.log("Note: redaction is disabled in the plugin config.");
+            }
+            console.log(`\n--- Redacted ---\n${result.text}`);
+          });
+
+        maasv
+          .command("export")
+          .description("Export memories, entities, relationships and wisdom as a JSONL bundle")
+          .argument("[file]", "Output file (default: stdout)")
+          .option("--types <list>", "Comma-separated record types: memory,entity,relationship,wisdom")
+          .option("-c, --category <list>", "Comma-separated memory categories")
+          .option("--since <date>", "Only records on/after this ISO date")
+          .option("--until <date>", "Only records on/before this ISO date")
+          .action(
+            async (
+              file: string | undefined,
+              opts: { types?: string; category?: string; since?: string; until?: string },
+            ) => {
+              const types = splitList(opts.types);
+              const unknownTypes = types?.filter((t) => !RECORD_TYPES.includes(t as RecordType)) ?? [];
+              if (unknownTypes.length > 0) {
+                console.error(`Unknown record type(s): ${unknownTypes.join(", ")} (expected ${RECORD_TYPES.join(", ")})`);
+                return;
+              }
+              const out = file ? createWriteStream(file) : process.stdout;
+              try {
+                const counts = await exportBundle(cli(), out, {
+                  types: types as RecordType[] | undefined,
+                  categories: splitList(opts.category),
+                  since: opts.since,
+                  until: opts.until,
+                });
+                if (file) {
+                  await new Promise((resolve) => (out as WriteStream).end(resolve));
+                }
+                const summary = RECORD_TYPES.map((t) => `${counts[t]} ${t}`).join(", ");
+                console.error(`Exported ${summary}${file ? ` to ${file}` : ""}`);
+              } catch (err) {
+                console.error(`Export failed: ${(err as Error).message}`);
+              }
+            },
+          );
+
+        maasv
+          .command("import")
+          .description("Import a JSONL bundle created by 'maasv export'")
+          .argument("<file>", "Bundle file")
+          .option("--on-conflict <policy>", "skip | overwrite | supersede", "skip")
+          .option("--dry-run", "Report what would be imported without writing")
+          .action(async (file: string, opts: { onConflict: string; dryRun?: boolean }) => {
+            if (!["skip", "overwrite", "supersede"].includes(opts.onConflict)) {
+              console.error(`Unknown conflict policy: ${opts.onConflict}`);
+              return;
+            }
+            try {
+              const summary = await importBundle(cli(), createReadStream(file), {
+                onConflict: opts.onConflict as ConflictPolicy,
+                dryRun: opts.dryRun === true,
+              });
+              console.log(formatImportSummary(summary, opts.dryRun === true));
+            } catch (err) {
+              console.error(`Import failed: ${(err as Error).message}`);
+            }
+          });
+
+        maasv
+          .command("migrate")
+          .description("Import OpenClaw's flat-file memory (MEMORY.md, memory/*.md) into maasv")
+          .argument("[workspace]", "Workspace directory holding MEMORY.md (default: ~/.openclaw/workspace)")
+          .option("--extract", "Also run each chunk through entity extraction to populate the graph")
+          .option("--dry-run", "Parse and report without storing anything")
+          .option("-v, --verbose", "List every chunk and its outcome")
+          .action(
+            async (
+              workspace: string | undefined,
+              opts: { extract?: boolean; dryRun?: boolean; verbose?: boolean },
+            ) => {
+              const dir = workspace ?? defaultWorkspaceDir();
+              try {
+                const client = cli();
+                const report = await migrateFlatFiles(
+                  client,
+                  dir,
+                  new MigrationLedger(resolveStateDir(config), {
+                    serverUrl: config.serverUrl,
+                    namespace: client.currentNamespace,
+                  }),
+                  { extract: opts.extract === true, dryRun: opts.dryRun === true, redactor },
+                );
+                console.log(formatMigrationReport(report, opts.verbose === true, opts.dryRun === true));
+              } catch (err) {
+                console.error(`Migration failed: ${(err as Error).message}`);
+              }
+            },
+          );
+
+        const graphCmd = maasv
+          .command("graph")
+          .description("Export and clean up the knowledge graph");
+
+        graphCmd
+          .command("export")
+          .description("Export the knowledge graph for visualization")
+          .argument("[file]", "Output file (default: stdout)")
+          .option("-f, --format <format>", "dot | mermaid | graphml | json", "dot")
+          .option("--root <entity>", "Start from this entity instead of the whole graph")
+          .option("--depth <n>", "Hops from --root", String(DEFAULT_GRAPH_DEPTH))
+          .option("-t, --type <types>", "Comma-separated entity types")
+          .option("-p, --predicate <predicates>", "Comma-separated predicates")
+          .option("--include-ended", "Include ended relationships (drawn dashed)")
+          .option("--max-nodes <n>", "Node cap", String(DEFAULT_GRAPH_MAX_NODES))
+          .option("--max-edges <n>", "Edge cap", String(DEFAULT_GRAPH_MAX_EDGES))
+          .action(
+            async (
+              file: string | undefined,
+              opts: {
+                format: string;
+                root?: string;
+                depth: string;
+                type?: string;
+                predicate?: string;
+                includeEnded?: boolean;
+                maxNodes: string;
+                maxEdges: string;
+              },
+            ) => {
+              if (!VISUAL_FORMATS.includes(opts.format as VisualFormat)) {
+                console.error(`Unknown format: ${opts.format} (expected ${VISUAL_FORMATS.join(", ")})`);
+                return;
+              }
+              const options: VisualOptions = {
+                root: opts.root,
+                depth: parseInt(opts.depth, 10),
+                entityTypes: splitList(opts.type),
+                predicates: splitList(opts.predicate),
+                includeEnded: opts.includeEnded === true,
+                maxNodes: parseInt(opts.maxNodes, 10),
+                maxEdges: parseInt(opts.maxEdges, 10),
+              };
+              try {
+                const graph = await collectGraph(cli(), options);
+                const text = renderGraph(graph, opts.format as VisualFormat);
+                if (file) {
+                  writeFileSync(file, `${text}\n`, "utf8");
+                } else {
+                  console.log(text);
+                }
+                const note = graph.truncated ? " (truncated — raise --max-nodes/--max-edges or filter)" : "";
+                console.error(
+                  `Exported ${graph.nodes.length} nodes, ${graph.edges.length} edges${file ? ` to ${file}` : ""}${note}`,
+                );
+              } catch (err) {
+                console.error(`Export failed: ${(err as Error).message}`);
+              }
+            },
+          );
+
+        graphCmd
+          .command("duplicates")
+          .description("List likely duplicate entities")
+          .option("-t, --type <type>", "Only this entity type")
+          .option("-n, --limit <number>", "Max candidates", "20")
+          .option("--min-score <score>", "Minimum similarity score (0-1)", "0.6")
+          .action(async (opts: { type?: string; limit: string; minScore: string }) => {
+            try {
+              const candidates = await findDuplicateCandidates(cli(), {
+                entityType: opts.type,
+                limit: parseInt(opts.limit, 10),
+                minScore: parseFloat(opts.minScore),
+              });
+              console.log(formatCandidates(candidates));
+            } catch (err) {
+              console.error(`Failed: ${(err as Error).message}`);
+            }
+          });
+
+        graphCmd
+          .command("merge")
+          .description("Merge one entity into another, re-pointing its relationships")
+          .argument("<source>", "Entity ID to merge away")
+          .argument("<target>", "Entity ID to keep")
+          .option("--dry-run", "Show what would change without writing")
+          .action(async (source: string, target: string, opts: { dryRun?: boolean }) => {
+            try {
+              const plan = await planMerge(cli(), source, target);
+              console.log(formatMergePlan(plan));
+              if (opts.dryRun) return;
+              const record = await executeMerge(cli(), plan, merges);
+              console.log(`Merged (${record.id}). Undo with: openclaw maasv graph unmerge ${record.id}`);
+            } catch (err) {
+              console.error(`Merge failed: ${(err as Error).message}`);
+            }
+          });
+
+        graphCmd
+          .command("unmerge")
+          .description("Undo a merge from the audit log")
+          .argument("<mergeId>", "Merge ID (see 'maasv graph merges')")
+          .action(async (mergeId: string) => {
+            try {
+              const { record, restored, relationships } = await undoMerge(cli(), merges, mergeId);
+              console.log(
+                `Restored ${record.source.name} as ${restored.id} with ${relationships} relationship(s); removed ${record.created.length} from ${record.target.name}.`,
+              );
+            } catch (err) {
+              console.error(`Unmerge failed: ${(err as Error).message}`);
+            }
+          });
+
+        graphCmd
+          .command("merges")
+          .description("Show the merge audit log")
+          .action(() => {
+            const records = merges.list();
+            if (records.length === 0) {
+              console.log("No merges recorded.");
+              return;
+            }
+            for (const record of records) console.log(formatMergeRecord(record));
+            console.log(`\n${records.length} merge(s) — ${merges.path}`);
+          });
+
+        graphCmd
+          .command("alias")
+          .description("Add an alias so extraction resolves that name to this entity")
+          .argument("<entity>", "Entity ID")
+          .argument("<alias>", "Alternative name")
+          .option("--remove", "Remove the alias instead")
+          .action(async (entityId: string, alias: string, opts: { remove?: boolean }) => {
+            try {
+              const entity = opts.remove
+                ? await cli().removeEntityAlias(entityId, alias)
+                : await cli().addEntityAlias(entityId, alias);
+              console.log(`${entity.name} [${entity.id}] aliases: ${(entity.aliases ?? []).join(", ") || "(none)"}`);
+            } catch (err) {
+              console.error(`Failed: ${(err as Error).message}`);
+            }
+          });
+
+        graphCmd
+          .command("rename")
+          .description("Rename an entity (the old name is kept as an alias)")
+          .argument("<entity>", "Entity ID")
+          .argument("<name>", "New name")
+          .option("--no-keep-alias", "Don't keep the old name as an alias")
+          .action(async (entityId: string, name: string, opts: { keepAlias: boolean }) => {
+            try {
+              const entity = await cli().renameEntity(entityId, name, opts.keepAlias);
+              console.log(`Renamed ${entity.id} to ${entity.name}`);
+            } catch (err) {
+              console.error(`Failed: ${(err as Error).message}`);
+            }
+          });
+
+        graphCmd
+          .command("delete")
+          .description("Delete an entity and every relationship that touches it")
+          .argument("<entity>", "Entity ID")
+          .action(async (entityId: string) => {
+            try {
+              const result = await cli().deleteEntity(entityId);
+              console.log(
+                result.deleted
+                  ? `Deleted ${result.entity_id} and ${result.relationships_removed} relationship(s).`
+                  : `Entity ${result.entity_id} not found.`,
+              );
+            } catch (err) {
+              console.error(`Failed: ${(err as Error).message}`);
+            }
+          });
+
+        const wisdomCmd = maasv
+          .command("wisdom")
+          .description("Analyze logged wisdom");
+
+        wisdomCmd
+          .command("report")
+          .description("Success rates, feedback, trends and failure reasons by action type and tag")
+          .option("--since <date>", "Only entries on or after this ISO date")
+          .option("--until <date>", "Only entries on or before this ISO date")
+          .option("-a, --action-type <type>", "Only this action type")
+          .option("-w, --window <window>", "Trend window: day | week | month", "week")
+          .option("--windows <n>", "Number of trend windows", "8")
+          .option("--json", "Print the report as JSON")
+          .action(
+            async (opts: {
+              since?: string;
+              until?: string;
+              actionType?: string;
+              window: string;
+              windows: string;
+              json?: boolean;
+            }) => {
+              if (!TREND_WINDOWS.includes(opts.window as TrendWindow)) {
+                console.error(`Unknown window: ${opts.window} (expected ${TREND_WINDOWS.join(", ")})`);
+                return;
+              }
+              try {
+                const report = await buildWisdomReport(cli(), {
+                  since: opts.since,
+                  until: opts.until,
+                  actionType: opts.actionType,
+                  window: opts.window as TrendWindow,
+                  windows: parseInt(opts.windows, 10),
+                });
+                console.log(opts.json ? JSON.stringify(report, null, 2) : formatWisdomReport(report));
+              } catch (err) {
+                console.error(`Report failed: ${(err as Error).message}`);
+              }
+            },
+          );
+
+        const queueCmd = maasv
+          .command("queue")
+          .description("Inspect or replay writes queued while maasv-server was unreachable");
+
+        queueCmd
+          .command("list")
+          .description("Show pending queued writes")
+          .action(() => {
+            if (!queue) {
+              console.log("Offline queue is disabled (offlineQueue: false).");
+              return;
+            }
+            const items = queue.list();
+            if (items.length === 0) {
+              console.log("Queue is empty.");
+              return;
+            }
+            for (const item of items) {
+              const retry = item.attempts > 0 ? ` (${item.attempts} attempts: ${item.lastError})` : "";
+              const ns = item.namespace ? `  [${item.namespace}]` : "";
+              console.log(`${item.id}  ${item.enqueuedAt}  ${item.op}${ns}  ${describeWrite(item)}${retry}`);
+            }
+            console.log(`\n${items.length} pending — ${queue.path}`);
+          });
+
+        queueCmd
+          .command("flush")
+          .description("Replay queued writes now")
+          .action(async () => {
+            if (!queue) {
+              console.log("Offline queue is disabled (offlineQueue: false).");
+              return;
+            }
+            const result = await queue.flush(client);
+            console.log(`Sent: ${result.sent}  Remaining: ${result.remaining}`);
+            for (const { item, error } of result.rejected) {
+              console.error(`Rejected ${item.id} (${item.op}): ${error}`);
+            }
+            if (result.error) {
+              console.error(`Stopped early: ${result.error}`);
+            }
+          });
+
+        queueCmd
+          .command("drop")
+          .argument("[id]", "Queue item ID to drop")
+          .option("--all", "Drop every pending item")
+          .description("Discard queued writes")
+          .action((id: string | undefined, opts: { all?: boolean }) => {
+            if (!queue) {
+              console.log("Offline queue is disabled (offlineQueue: false).");
+              return;
+            }
+            if (!id && !opts.all) {
+              console.error("Specify an item ID or --all.");
+              return;
+            }
+            const dropped = queue.drop(opts.all ? undefined : id);
+            console.log(`Dropped ${dropped} item(s).`);
+          });
       },
       { commands: ["maasv"] },
     );
@@ -226,34 +1318,61 @@ export default {
 function extractUserMessage(event: any): string | null {
   // OpenClaw passes the user's message in various event shapes
   if (typeof event?.userMessage === "string") return event.userMessage;
-  if (event?.context?.messages) {
-    const messages = event.context.messages;
+  const messages = event?.messages ?? event?.context?.messages;
+  if (Array.isArray(messages)) {
     for (let i = messages.length - 1; i >= 0; i--) {
       if (messages[i].role === "user") {
-        return typeof messages[i].content === "string"
-          ? messages[i].content
-          : JSON.stringify(messages[i].content);
+        // Text only: tool payloads and image data make poor recall queries
+        const text = normalizeContent(messages[i].content, { placeholders: false }).trim();
+        return text || null;
       }
     }
   }
   return null;
 }
 
-function extractConversation(event: any): string | null {
-  if (!event?.context?.messages) return null;
+// Marks recall served from the local fallback cache while maasv-server is down
+function fallbackAttr(fallback: boolean | undefined): string {
+  return fallback ? ' source="fallback-cache"' : "";
+}
 
-  const messages = event.context.messages;
-  const parts: string[] = [];
+function splitList(value: string | undefined): string[] | undefined {
+  if (!value) return undefined;
+  const items = value.split(",").map((s) => s.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
 
+function describeWrite(write: QueuedWrite): string {
+  const text =
+    write.op === "extract"
+      ? write.payload.text
+      : write.op === "store"
+        ? write.payload.content
+        : `${write.payload.subject_id} ${write.payload.predicate} ${write.payload.object_id ?? write.payload.object_value}`;
+  const oneLine = text.replace(/\s+/g, " ");
+  return oneLine.length > 80 ? `${oneLine.slice(0, 77)}...` : oneLine;
+}
+
+function extractTurns(event: any, opts: Partial<NormalizeOptions>): Turn[] {
+  const messages = event?.messages ?? event?.context?.messages;
+  if (!Array.isArray(messages)) return [];
+
+  const turns: Turn[] = [];
   for (const msg of messages) {
+    let text: string | null = null;
+    let role: Turn["role"] = "assistant";
     if (msg.role === "user" || msg.role === "assistant") {
-      const content =
-        typeof msg.content === "string"
-          ? msg.content
-          : JSON.stringify(msg.content);
-      parts.push(`${msg.role}: ${content}`);
+      role = msg.role;
+      text = normalizeContent(msg.content, opts);
+    } else if (msg.role === "toolResult" || msg.role === "tool") {
+      // Tool output is attributed to the assistant turn that requested it
+      text = normalizeToolResultMessage(msg, opts);
     }
+    if (text && text.trim()) turns.push({ role, text });
   }
+  return turns;
+}
 
-  return parts.length > 0 ? parts.join("\n\n") : null;
+function sessionKeyOf(event: any, ctx: any): string | null {
+  return ctx?.sessionKey ?? event?.sessionKey ?? event?.context?.sessionKey ?? null;
 }
@@ -0,0 +1,336 @@
+/**
+ * Migration from OpenClaw's built-in flat-file memory (MEMORY.md and
+ * memory/*.md in the agent workspace).
+ *
+ * Markdown is split into chunks — one per bullet (with its nested lines) or
+ * paragraph — carrying the heading path above it and a date when the file
+ * name, a heading or the bullet itself has one. Headings map to maasv
+ * categories and subjects. A ledger of content hashes in the state dir, kept
+ * per server and namespace, makes the migration safe to re-run.
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync, readdirSync } from "node:fs";
+import { basename, join, relative } from "node:path";
+import type { MaasvClient } from "./client.js";
+import type { Redactor } from "./redact.js";
+import { writeFileAtomic } from "./state.js";
+
+export interface MemoryChunk {
+  file: string;
+  headings: string[];
+  date: string | null;
+  text: string;
+  category: string;
+  subject?: string;
+  hash: string;
+}
+
+export interface MigrateOptions {
+  /** Also run each chunk through client.extract to populate the graph. */
+  extract: boolean;
+  dryRun: boolean;
+  redactor?: Redactor;
+}
+
+export type ChunkOutcome = "imported" | "merged" | "skipped" | "failed";
+
+export interface MigrationReport {
+  files: string[];
+  counts: Record<ChunkOutcome, number>;
+  /** Chunks stored, but whose entity extraction failed. */
+  extractFailed: number;
+  items: Array<{ outcome: ChunkOutcome; chunk: MemoryChunk; memoryId?: string; error?: string }>;
+}
+
+const DATE = /\b(\d{4}-\d{2}-\d{2})\b/;
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const BULLET = /^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/;
+
+// Heading keywords → maasv category. First match wins.
+const CATEGORY_KEYWORDS: Array<[string, RegExp]> = [
+  ["identity", /\b(identity|about (me|the user)|who i am|profile|bio|personal info)\b/i],
+  ["family", /\b(family|kids?|children|spouse|wife|husband|partner|parents?|relatives)\b/i],
+  ["preference", /\b(preferences?|likes?|dislikes?|favou?rites?|style|tastes?)\b/i],
+  ["project", /\b(projects?|work|tasks?|todos?|goals?)\b/i],
+  ["decision", /\b(decisions?|decided|choices)\b/i],
+  ["health", /\b(health|medical|fitness|diet|allerg(y|ies))\b/i],
+  ["financial", /\b(financ(e|ial)|money|budget|accounts?|investments?)\b/i],
+];
+
+/** MEMORY.md plus memory/*.md under `workspaceDir`, in a stable order. */
+export function findMemoryFiles(workspaceDir: string): string[] {
+  const files: string[] = [];
+  for (const name of ["MEMORY.md", "memory.md"]) {
+    const p = join(workspaceDir, name);
+    if (existsSync(p)) {
+      files.push(p);
+      break;
+    }
+  }
+  const dir = join(workspaceDir, "memory");
+  if (existsSync(dir)) {
+    for (const name of readdirSync(dir).sort()) {
+      if (name.endsWith(".md")) files.push(join(dir, name));
+    }
+  }
+  return files;
+}
+
+export function parseMemoryMarkdown(content: string, file: string): MemoryChunk[] {
+  const fileDate = basename(file).match(DATE)?.[1] ?? null;
+  const chunks: MemoryChunk[] = [];
+  const headings: Array<{ level: number; text: string }> = [];
+  let current: string[] = [];
+  let bulletIndent = -1;
+  let inFence = false;
+
+  const flush = () => {
+    const text = current.join("\n").trim();
+    current = [];
+    bulletIndent = -1;
+    if (!text) return;
+    chunks.push(buildChunk(text, file, headings.map((h) => h.text), fileDate));
+  };
+
+  const lines = stripFrontMatter(content).split("\n");
+  for (const line of lines) {
+    // Code fences stay intact inside whatever chunk they appear in
+    const fence = /^\s*(```|~~~)/.test(line);
+    if (fence) inFence = !inFence;
+    if (inFence || fence) {
+      current.push(line);
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      while (headings.length && headings[headings.length - 1].level >= level) headings.pop();
+      headings.push({ level, text: heading[2] });
+      continue;
+    }
+
+    if (line.trim() === "") {
+      // Blank lines end paragraphs, but not a bullet's nested content
+      if (bulletIndent < 0) flush();
+      continue;
+    }
+
+    const bullet = line.match(BULLET);
+    if (bullet) {
+      const indent = bullet[1].length;
+      // Nested bullets stay with their parent
+      if (bulletIndent >= 0 && indent > bulletIndent) {
+        current.push(line);
+        continue;
+      }
+      flush();
+      bulletIndent = indent;
+      current.push(bullet[2]);
+      continue;
+    }
+
+    if (bulletIndent >= 0 && /^\s+/.test(line)) {
+      current.push(line);
+      continue;
+    }
+    if (bulletIndent >= 0) flush();
+    current.push(line);
+  }
+  flush();
+
+  return chunks;
+}
+
+/**
+ * Content hashes already migrated, per target (server URL + namespace), so
+ * the same files can still be migrated into another server or namespace.
+ */
+export class MigrationLedger {
+  readonly path: string;
+  private scopes: Record<string, Record<string, string>>;
+  private entries: Record<string, string>;
+
+  constructor(stateDir: string, target: { serverUrl: string; namespace?: string }) {
+    this.path = join(stateDir, "migrate-ledger.json");
+    const scope = `${target.serverUrl.replace(/\/+$/, "")}#${target.namespace ?? ""}`;
+    let data: { scopes?: Record<string, Record<string, string>>; entries?: Record<string, string> } = {};
+    if (existsSync(this.path)) {
+      try {
+        data = JSON.parse(readFileSync(this.path, "utf8"));
+      } catch (err) {
+        throw new Error(
+          `Migration ledger ${this.path} is corrupt (${(err as Error).message}); move it aside to start fresh`,
+        );
+      }
+    }
+    this.scopes = data.scopes ?? {};
+    // Ledgers from before scoping: credit their entries to the first target migrated into
+    if (data.entries && Object.keys(this.scopes).length === 0) this.scopes[scope] = data.entries;
+    this.scopes[scope] ??= {};
+    this.entries = this.scopes[scope];
+  }
+
+  get(hash: string): string | undefined {
+    return this.entries[hash];
+  }
+
+  has(hash: string): boolean {
+    return hash in this.entries;
+  }
+
+  /** True if some other chunk already resolved to this memory. */
+  hasMemory(memoryId: string): boolean {
+    return Object.values(this.entries).includes(memoryId);
+  }
+
+  set(hash: string, memoryId: string): void {
+    this.entries[hash] = memoryId;
+  }
+
+  save(): void {
+    writeFileAtomic(this.path, JSON.stringify({ scopes: this.scopes }, null, 2));
+  }
+}
+
+export async function migrateFlatFiles(
+  client: MaasvClient,
+  workspaceDir: string,
+  ledger: MigrationLedger,
+  opts: MigrateOptions,
+): Promise<MigrationReport> {
+  const files = findMemoryFiles(workspaceDir);
+  const report: MigrationReport = {
+    files: files.map((f) => relative(workspaceDir, f)),
+    counts: { imported: 0, merged: 0, skipped: 0, failed: 0 },
+    extractFailed: 0,
+    items: [],
+  };
+  const record = (item: MigrationReport["items"][number]) => {
+    report.counts[item.outcome] += 1;
+    report.items.push(item);
+  };
+
+  const seen = new Set<string>();
+
+  for (const file of files) {
+    const chunks = parseMemoryMarkdown(readFileSync(file, "utf8"), relative(workspaceDir, file));
+    for (const chunk of chunks) {
+      // The same text twice in one run (e.g. MEMORY.md and a daily log) merges
+      if (seen.has(chunk.hash)) {
+        record({ outcome: "merged", chunk, memoryId: ledger.get(chunk.hash) });
+        continue;
+      }
+      seen.add(chunk.hash);
+      if (ledger.has(chunk.hash)) {
+        record({ outcome: "skipped", chunk, memoryId: ledger.get(chunk.hash) });
+        continue;
+      }
+      if (opts.dryRun) {
+        record({ outcome: "imported", chunk });
+        continue;
+      }
+
+      const content = opts.redactor ? opts.redactor.redact(chunk.text).text : chunk.text;
+      let memoryId: string;
+      let merged: boolean;
+      try {
+        const { memory_id } = await client.storeMemory({
+          content: chunk.date && !chunk.text.includes(chunk.date) ? `[${chunk.date}] ${content}` : content,
+          category: chunk.category,
+          subject: chunk.subject,
+          source: "openclaw-migrate",
+          metadata: {
+            migrated_from: chunk.file,
+            headings: chunk.headings,
+            date: chunk.date,
+          },
+        });
+        // maasv dedups on store: an ID we have already seen means it merged
+        memoryId = memory_id;
+        merged = ledger.hasMemory(memory_id);
+        // Record the store before extracting, so a failed extract isn't stored again next run
+        ledger.set(chunk.hash, memory_id);
+        ledger.save();
+      } catch (err) {
+        record({ outcome: "failed", chunk, error: (err as Error).message });
+        continue;
+      }
+
+      let error: string | undefined;
+      if (opts.extract) {
+        try {
+          await client.extract(content, chunk.headings.join(" > ") || chunk.file);
+        } catch (err) {
+          report.extractFailed += 1;
+          error = `extraction failed: ${(err as Error).message}`;
+        }
+      }
+      record({ outcome: merged ? "merged" : "imported", chunk, memoryId, error });
+    }
+  }
+
+  return report;
+}
+
+export function formatMigrationReport(report: MigrationReport, verbose: boolean, dryRun: boolean): string {
+  if (report.files.length === 0) return "No MEMORY.md or memory/*.md files found.";
+  const lines = [`Files: ${report.files.join(", ")}`];
+  if (verbose) {
+    for (const item of report.items) {
+      const where = [item.chunk.file, ...item.chunk.headings].join(" > ");
+      const id = item.memoryId ? ` → ${item.memoryId}` : "";
+      const err = item.error ? ` (${item.error})` : "";
+      lines.push(`  ${item.outcome.padEnd(8)} [${item.chunk.category}] ${where}: ${oneLine(item.chunk.text)}${id}${err}`);
+    }
+  }
+  const c = report.counts;
+  const verb = dryRun ? "Would import" : "Imported";
+  lines.push(`${verb} ${c.imported}, merged by dedup ${c.merged}, skipped (already migrated) ${c.skipped}, failed ${c.failed}`);
+  if (report.extractFailed > 0) {
+    lines.push(`Entity extraction failed for ${report.extractFailed} stored chunk(s); run with --verbose for details`);
+  }
+  return lines.join("\n");
+}
+
+// --- Helpers ---
+
+function buildChunk(text: string, file: string, headings: string[], fileDate: string | null): MemoryChunk {
+  const headingDate = [...headings].reverse().map((h) => h.match(DATE)?.[1]).find(Boolean);
+  const ownDate = text.match(new RegExp(`^${DATE.source}`))?.[1];
+  const date = ownDate ?? headingDate ?? fileDate;
+
+  let category = "context";
+  let subject: string | undefined;
+  for (const heading of headings) {
+    const match = CATEGORY_KEYWORDS.find(([, re]) => re.test(heading));
+    if (match) {
+      category = match[0];
+    } else if (!DATE.test(heading) && !/^memor(y|ies)$/i.test(heading.trim())) {
+      // A heading that names neither a category nor a date names a subject
+      subject = heading.replace(/[*_`]/g, "").trim();
+    }
+  }
+
+  const normalized = text.toLowerCase().replace(/\s+/g, " ").trim();
+  return {
+    file,
+    headings,
+    date,
+    text,
+    category,
+    subject,
+    hash: createHash("sha256").update(normalized).digest("hex").slice(0, 24),
+  };
+}
+
+function stripFrontMatter(content: string): string {
+  return content.startsWith("---\n") ? content.replace(/^---\n[\s\S]*?\n---\n/, "") : content;
+}
+
+function oneLine(s: string): string {
+  const flat = s.replace(/\s+/g, " ");
+  return flat.length > 70 ? `${flat.slice(0, 67)}...` : flat;
+}
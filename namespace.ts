@@ -0,0 +1,36 @@
+/**
+ * Memory namespaces: which slice of the store an agent, session or user
+ * reads and writes.
+ *
+ * Resolution order: an explicit `namespaceMap` entry for the agent id or
+ * session key, then the id named by `namespaceFrom`, then the configured
+ * `namespace`. No namespace at all means the shared global space.
+ */
+
+import type { PluginConfig } from "./types.js";
+
+export interface NamespaceContext {
+  agentId?: string;
+  sessionKey?: string;
+}
+
+export function resolveNamespace(
+  config: Pick<PluginConfig, "namespace" | "namespaceFrom" | "namespaceMap">,
+  ctx: NamespaceContext = {},
+): string | undefined {
+  const map = config.namespaceMap ?? {};
+  if (ctx.agentId && map[ctx.agentId]) return map[ctx.agentId];
+  if (ctx.sessionKey && map[ctx.sessionKey]) return map[ctx.sessionKey];
+
+  if (config.namespaceFrom === "agent" && ctx.agentId) return ctx.agentId;
+  if (config.namespaceFrom === "session" && ctx.sessionKey) return ctx.sessionKey;
+  return config.namespace || undefined;
+}
+
+/** Pull agent/session identifiers out of a hook or tool-factory context. */
+export function namespaceContext(event: any, ctx: any): NamespaceContext {
+  return {
+    agentId: ctx?.agentId ?? event?.agentId,
+    sessionKey: ctx?.sessionKey ?? event?.sessionKey ?? event?.context?.sessionKey,
+  };
+}
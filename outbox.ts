@@ -0,0 +1,188 @@
+/**
+ * Durable outbox for writes that failed because maasv-server was unreachable.
+ *
+ * Items are kept in a JSONL file in the plugin state dir and replayed in
+ * order once health() passes again. Identical writes are deduplicated by
+ * content hash; when the cap is reached the oldest item is evicted.
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { isUnavailableError, type MaasvClient } from "./client.js";
+import { writeFileAtomic } from "./state.js";
+import type { RelationshipRequest, StoreRequest } from "./types.js";
+
+export type QueuedWrite =
+  | { op: "extract"; payload: { text: string; topic?: string } }
+  | { op: "store"; payload: StoreRequest }
+  | { op: "relationship"; payload: RelationshipRequest };
+
+export type QueueItem = QueuedWrite & {
+  id: string;
+  /** Namespace the write belongs to; replayed through a client scoped to it. */
+  namespace?: string;
+  hash: string;
+  enqueuedAt: string;
+  attempts: number;
+  lastError: string | null;
+};
+
+export interface EnqueueResult {
+  item: QueueItem;
+  /** True if an identical write was already pending. */
+  duplicate: boolean;
+  /** Oldest item evicted to stay under the size cap, if any. */
+  evicted: QueueItem | null;
+}
+
+export interface FlushResult {
+  sent: number;
+  /** Items the server rejected outright (4xx); these are dropped. */
+  rejected: Array<{ item: QueueItem; error: string }>;
+  remaining: number;
+  /** Set when replay stopped early because the server went away again. */
+  error: string | null;
+}
+
+export class WriteQueue {
+  readonly path: string;
+  private flushing: Promise<FlushResult> | null = null;
+
+  constructor(
+    stateDir: string,
+    private maxItems: number,
+  ) {
+    this.path = join(stateDir, "outbox.jsonl");
+  }
+
+  enqueue(write: QueuedWrite, namespace?: string): EnqueueResult {
+    const items = this.load();
+    const hash = hashWrite(write, namespace);
+    const existing = items.find((i) => i.hash === hash);
+    if (existing) {
+      return { item: existing, duplicate: true, evicted: null };
+    }
+
+    const item: QueueItem = {
+      ...write,
+      id: `q_${randomBytes(6).toString("hex")}`,
+      namespace,
+      hash,
+      enqueuedAt: new Date().toISOString(),
+      attempts: 0,
+      lastError: null,
+    };
+    items.push(item);
+    const evicted = items.length > this.maxItems ? items.shift()! : null;
+    this.save(items);
+    return { item, duplicate: false, evicted };
+  }
+
+  list(): QueueItem[] {
+    return this.load();
+  }
+
+  size(): number {
+    return this.load().length;
+  }
+
+  /** Drop one item by ID, or everything if no ID is given. Returns the count dropped. */
+  drop(id?: string): number {
+    const items = this.load();
+    const kept = id ? items.filter((i) => i.id !== id) : [];
+    this.save(kept);
+    return items.length - kept.length;
+  }
+
+  /**
+   * Replay pending writes in order. Stops at the first unavailable error so
+   * ordering is preserved; concurrent callers share one replay.
+   */
+  flush(client: MaasvClient): Promise<FlushResult> {
+    if (!this.flushing) {
+      this.flushing = this.replay(client).finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  private async replay(client: MaasvClient): Promise<FlushResult> {
+    const result: FlushResult = { sent: 0, rejected: [], remaining: 0, error: null };
+
+    for (;;) {
+      // Re-read each round so items enqueued mid-flush (or by the CLI) are seen
+      const [item] = this.load();
+      if (!item) break;
+
+      try {
+        await sendWrite(client.withNamespace(item.namespace), item);
+        result.sent += 1;
+        this.remove(item.id);
+      } catch (err) {
+        const message = (err as Error).message;
+        if (isUnavailableError(err)) {
+          this.update(item.id, { attempts: item.attempts + 1, lastError: message });
+          result.error = message;
+          break;
+        }
+        result.rejected.push({ item, error: message });
+        this.remove(item.id);
+      }
+    }
+
+    result.remaining = this.size();
+    return result;
+  }
+
+  private remove(id: string): void {
+    this.save(this.load().filter((i) => i.id !== id));
+  }
+
+  private update(id: string, patch: Pick<QueueItem, "attempts" | "lastError">): void {
+    this.save(this.load().map((i) => (i.id === id ? { ...i, ...patch } : i)));
+  }
+
+  private load(): QueueItem[] {
+    if (!existsSync(this.path)) return [];
+    const items: QueueItem[] = [];
+    for (const line of readFileSync(this.path, "utf8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        items.push(JSON.parse(line) as QueueItem);
+      } catch {
+        // Skip a torn line rather than losing the whole queue
+      }
+    }
+    return items;
+  }
+
+  private save(items: QueueItem[]): void {
+    writeFileAtomic(
+      this.path,
+      items.map((i) => JSON.stringify(i)).join("\n") + (items.length ? "\n" : ""),
+    );
+  }
+}
+
+function sendWrite(client: MaasvClient, write: QueuedWrite): Promise<unknown> {
+  switch (write.op) {
+    case "extract":
+      return client.extract(write.payload.text, write.payload.topic);
+    case "store":
+      return client.storeMemory(write.payload);
+    case "relationship":
+      return client.addRelationship(write.payload);
+  }
+}
+
+function hashWrite(write: QueuedWrite, namespace?: string): string {
+  return createHash("sha256")
+    .update(namespace ?? "")
+    .update("\0")
+    .update(write.op)
+    .update("\0")
+    .update(JSON.stringify(write.payload))
+    .digest("hex");
+}
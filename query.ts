@@ -0,0 +1,105 @@
+/**
+ * Auto-recall query building.
+ *
+ * Two separate steps:
+ * - Trivial messages (greetings, acknowledgements, emoji) get no recall at
+ *   all; they only match noise.
+ * - Otherwise the query is the latest user message followed by what the last
+ *   few turns were about: names and other capitalized phrases first (what
+ *   "him" or "that" likely refers to), then the turns' text, newest first.
+ *   The message leads so it survives the length cap.
+ */
+
+import type { Turn } from "./capture.js";
+
+export interface RecallQuery {
+  query: string;
+  /** Set when the message was expanded; the prior-turn text that was added. */
+  expansion?: string;
+}
+
+// Long enough for a message plus its referents; recall is keyed on meaning, not transcript
+const MAX_QUERY_CHARS = 500;
+const MAX_REFERENTS = 5;
+const MAX_PRIOR_CHARS = 200;
+
+const GREETINGS = new Set([
+  "hi", "hello", "hey", "hiya", "yo", "howdy", "morning", "afternoon", "evening", "good",
+  "night", "gm", "there", "bye", "goodbye", "later", "see", "ya", "you", "cya",
+]);
+const ACKNOWLEDGEMENTS = new Set([
+  "ok", "okay", "k", "kk", "sure", "yes", "yeah", "yep", "yup", "no", "nope", "nah", "thanks",
+  "thank", "thx", "ty", "cool", "great", "nice", "awesome", "perfect", "got", "it", "sounds",
+  "alright", "fine", "lol", "haha", "np", "welcome", "cheers", "right", "true", "agreed",
+  "understood", "noted", "much", "so", "very", "that", "works", "makes", "sense", "a", "lot",
+]);
+const PRONOUNS = new Set([
+  "he", "him", "his", "she", "her", "hers", "they", "them", "their", "theirs", "it", "its",
+  "that", "this", "those", "these", "there", "one", "we", "us", "our", "ours",
+]);
+// Words that carry no topic of their own in a follow-up
+const FILLER = new Set([
+  "a", "an", "and", "about", "are", "as", "at", "be", "can", "could", "did", "do", "does",
+  "for", "go", "how", "i", "i'm", "in", "is", "me", "more", "my", "of", "on", "or", "please",
+  "tell", "the", "to", "was", "what", "what's", "when", "where", "which", "who", "why", "with",
+  "would", "you", "your", ...ACKNOWLEDGEMENTS,
+]);
+
+/**
+ * Why a message is too trivial to recall for, or null if it isn't.
+ * Only messages made up entirely of greeting/acknowledgement words count.
+ */
+export function trivialReason(message: string): string | null {
+  const words = wordsOf(message);
+  if (words.length === 0) return "no text";
+  if (words.every((w) => GREETINGS.has(w))) return "greeting";
+  if (words.every((w) => GREETINGS.has(w) || ACKNOWLEDGEMENTS.has(w))) return "acknowledgement";
+  return null;
+}
+
+/**
+ * Build the recall query for `message` from it and the last `window` turns
+ * of `prior` (oldest first, excluding the message itself).
+ */
+export function buildRecallQuery(message: string, prior: Turn[], window: number): RecallQuery {
+  const query = message.trim();
+  const recent = window > 0 ? prior.slice(-window) : [];
+  if (recent.length === 0) return { query: clip(query) };
+
+  const own = new Set(wordsOf(query));
+  const referents = referentsOf(recent).filter((r) => !own.has(r.toLowerCase()));
+  const text = [...recent]
+    .reverse()
+    .map((t) => t.text.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join(" / ")
+    .slice(0, MAX_PRIOR_CHARS);
+  const expansion = [referents.join(", "), text].filter(Boolean).join("\n");
+  if (!expansion) return { query: clip(query) };
+  return { query: clip(`${query}\n${expansion}`), expansion };
+}
+
+// --- Helpers ---
+
+function wordsOf(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? []).map((w) => w.replace(/^'+|'+$/g, "")).filter(Boolean);
+}
+
+/** Capitalized phrases from the turns, most recent first (likely names, places, projects). */
+function referentsOf(turns: Turn[]): string[] {
+  const found = new Map<string, string>();
+  for (const turn of [...turns].reverse()) {
+    for (const match of turn.text.matchAll(/\p{Lu}[\p{L}\p{N}'-]*(?:[ \t]+\p{Lu}[\p{L}\p{N}'-]*)*/gu)) {
+      // Sentence-initial filler ("What", "The", "I") isn't a referent
+      const words = match[0].split(/\s+/).filter((w) => !FILLER.has(w.toLowerCase()) && !PRONOUNS.has(w.toLowerCase()));
+      const phrase = words.join(" ");
+      if (phrase && !found.has(phrase.toLowerCase())) found.set(phrase.toLowerCase(), phrase);
+      if (found.size >= MAX_REFERENTS) return [...found.values()];
+    }
+  }
+  return [...found.values()];
+}
+
+function clip(query: string): string {
+  return query.length > MAX_QUERY_CHARS ? query.slice(0, MAX_QUERY_CHARS) : query;
+}
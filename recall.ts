@@ -0,0 +1,301 @@
+/**
+ * Recall formatting and budgeting for the auto-recall hook.
+ *
+ * Two formats:
+ * - tiered: getContext returns maasv's tiered context as text, highest-priority
+ *   tier first (identity > family > preference > project > relevant).
+ * - structured: searchMemories results rendered one <memory> element each,
+ *   with id, category, subject, confidence, age and relevance attributes so
+ *   the agent can cite a memory or pass its id to another tool.
+ *
+ * Budgeting works on whole entries in both: it keeps complete entries in
+ * priority order and drops the lowest-priority tail rather than cutting a
+ * memory in half.
+ *
+ * Past experience (searchWisdom results) is rendered the same way, one
+ * <experience> element per entry, within its own budget.
+ */
+
+import type { TokenCounter } from "./tokens.js";
+import type { ScoredMemory, WisdomEntry } from "./types.js";
+
+export interface FittedRecall {
+  text: string;
+  kept: number;
+  omitted: number;
+}
+
+interface ContextBlock {
+  kind: "heading" | "entry";
+  text: string;
+}
+
+const HEADING = /^(#{1,6}\s|\[[^\]]+\]\s*$|[^\s*•-].{0,60}:\s*$)/;
+const ENTRY_START = /^(\s{0,1}[-*•]\s|\d+[.)]\s)/;
+
+/**
+ * Fit tiered context into `maxTokens`, dropping whole entries from the end.
+ * Headings are kept only while their section still has entries.
+ */
+export function fitContext(
+  context: string,
+  maxTokens: number,
+  counter: TokenCounter,
+): FittedRecall {
+  const blocks = parseContext(context);
+  const entries = blocks.filter((b) => b.kind === "entry").length;
+
+  if (counter.count(context) <= maxTokens) {
+    return { text: context, kept: entries, omitted: 0 };
+  }
+
+  // Walk in priority order, keeping entries while they fit. The marker's
+  // cost is reserved up front since we already know we are truncating.
+  const reserve = counter.count(`\n${truncationMarker(entries)}`);
+  let used = reserve;
+  let kept = 0;
+  let pendingHeadings: ContextBlock[] = [];
+  const out: string[] = [];
+
+  for (const block of blocks) {
+    if (block.kind === "heading") {
+      pendingHeadings.push(block);
+      continue;
+    }
+    const headingCost = pendingHeadings.reduce(
+      (sum, h) => sum + counter.count(h.text) + 1,
+      0,
+    );
+    const cost = headingCost + counter.count(block.text) + 1;
+    if (used + cost > maxTokens) break;
+    used += cost;
+    out.push(...pendingHeadings.map((h) => h.text), block.text);
+    pendingHeadings = [];
+    kept += 1;
+  }
+
+  const omitted = entries - kept;
+  if (kept === 0) return { text: "", kept: 0, omitted };
+  return {
+    text: `${out.join("\n")}\n${truncationMarker(omitted)}`,
+    kept,
+    omitted,
+  };
+}
+
+/** The entries of tiered context text, without headings or markers. */
+export function contextEntries(context: string): string[] {
+  return parseContext(context)
+    .filter((b) => b.kind === "entry")
+    .map((b) => b.text);
+}
+
+/**
+ * Whether a query-matched context entry renders `content`. Core-tier entries
+ * lead with a category label ("[family] ...") and never match, so a
+ * threshold only ever drops query-matched entries.
+ */
+export function isEntryFor(entry: string, content: string): boolean {
+  const text = entry.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, "");
+  return normalizeSpace(text) === normalizeSpace(content);
+}
+
+/**
+ * Remove the context entries `drop` matches, and any heading left without
+ * entries. Used to filter tiered context by a relevance threshold.
+ */
+export function dropContextEntries(
+  context: string,
+  drop: (entry: string) => boolean,
+): { text: string; dropped: number } {
+  const out: string[] = [];
+  let pendingHeadings: string[] = [];
+  // A heading after dropped entries starts a new section; the emptied one goes
+  let sectionEmptied = false;
+  let dropped = 0;
+  for (const block of parseContext(context)) {
+    if (block.kind === "heading") {
+      pendingHeadings = sectionEmptied ? [block.text] : [...pendingHeadings, block.text];
+      sectionEmptied = false;
+    } else if (drop(block.text)) {
+      dropped += 1;
+      sectionEmptied = true;
+    } else {
+      sectionEmptied = false;
+      out.push(...pendingHeadings, block.text);
+      pendingHeadings = [];
+    }
+  }
+  return { text: dropped > 0 ? out.join("\n") : context, dropped };
+}
+
+/**
+ * Render search results as structured <memory> entries within `maxTokens`.
+ * Entries are ordered by relevance; the least relevant are dropped first.
+ */
+export function renderStructuredRecall(
+  memories: ScoredMemory[],
+  maxTokens: number,
+  counter: TokenCounter,
+  now: Date = new Date(),
+): FittedRecall {
+  const ranked = memories
+    .map((m, i) => ({ m, i }))
+    .sort((a, b) => (b.m.relevance ?? 0) - (a.m.relevance ?? 0) || a.i - b.i)
+    .map(({ m }) => renderMemory(m, now));
+
+  const reserve = counter.count(`\n${truncationMarker(ranked.length)}`);
+  const out: string[] = [];
+  let used = 0;
+  for (const entry of ranked) {
+    const cost = counter.count(entry) + 1;
+    const budget = out.length + 1 < ranked.length ? maxTokens - reserve : maxTokens;
+    if (used + cost > budget) break;
+    used += cost;
+    out.push(entry);
+  }
+
+  const omitted = ranked.length - out.length;
+  if (out.length === 0) return { text: "", kept: 0, omitted };
+  if (omitted > 0) out.push(truncationMarker(omitted));
+  return { text: out.join("\n"), kept: ranked.length - omitted, omitted };
+}
+
+/**
+ * Render past wisdom entries as <experience> elements within `maxTokens`.
+ * Entries without an outcome or feedback are skipped; the rest are ranked by
+ * search rank, feedback score and recency, and the lowest ranked are dropped
+ * first.
+ */
+export function renderPastExperience(
+  entries: WisdomEntry[],
+  maxTokens: number,
+  counter: TokenCounter,
+  now: Date = new Date(),
+): FittedRecall {
+  const resolved = entries.filter(
+    (w) => (w.outcome && w.outcome !== "pending" && w.outcome !== "unknown") || w.feedback_score !== null,
+  );
+  const ranked = resolved
+    .map((w, i) => ({ w, score: experienceScore(w, i, resolved.length, now) }))
+    .sort((a, b) => b.score - a.score)
+    .map(({ w }) => renderExperience(w, now));
+
+  const unit: [string, string] = ["entry", "entries"];
+  const reserve = counter.count(`\n${truncationMarker(ranked.length, unit)}`);
+  const out: string[] = [];
+  let used = 0;
+  for (const entry of ranked) {
+    const cost = counter.count(entry) + 1;
+    const budget = out.length + 1 < ranked.length ? maxTokens - reserve : maxTokens;
+    if (used + cost > budget) break;
+    used += cost;
+    out.push(entry);
+  }
+
+  const omitted = ranked.length - out.length;
+  if (out.length === 0) return { text: "", kept: 0, omitted };
+  if (omitted > 0) out.push(truncationMarker(omitted, unit));
+  return { text: out.join("\n"), kept: ranked.length - omitted, omitted };
+}
+
+/** One wisdom entry as a single-line <experience> element. */
+export function renderExperience(w: WisdomEntry, now: Date = new Date()): string {
+  const attrs: Array<[string, string]> = [
+    ["id", w.id],
+    ["action", w.action_type],
+    ["outcome", w.outcome || "pending"],
+  ];
+  if (w.feedback_score !== null) attrs.push(["feedback", `${w.feedback_score}/5`]);
+  attrs.push(["age", formatAge(w.timestamp, now)]);
+
+  const parts = [w.reasoning.replace(/\s+/g, " ").trim()];
+  if (w.outcome_details) parts.push(`Result: ${w.outcome_details.replace(/\s+/g, " ").trim()}`);
+  if (w.feedback_notes) parts.push(`Feedback: ${w.feedback_notes.replace(/\s+/g, " ").trim()}`);
+  const rendered = attrs.map(([k, v]) => `${k}="${escapeXml(v)}"`).join(" ");
+  return `<experience ${rendered}>${escapeXml(parts.join(" — "))}</experience>`;
+}
+
+/** One memory as a single-line <memory> element with stable attribute order. */
+export function renderMemory(m: ScoredMemory, now: Date = new Date()): string {
+  const attrs: Array<[string, string]> = [
+    ["id", m.id],
+    ["category", m.category],
+  ];
+  if (m.subject) attrs.push(["subject", m.subject]);
+  attrs.push(["confidence", m.confidence.toFixed(2)]);
+  attrs.push(["age", formatAge(m.created_at, now)]);
+  if (m.relevance !== undefined) attrs.push(["relevance", m.relevance.toFixed(2)]);
+
+  const rendered = attrs.map(([k, v]) => `${k}="${escapeXml(v)}"`).join(" ");
+  return `<memory ${rendered}>${escapeXml(m.content)}</memory>`;
+}
+
+/** Compact age like "45m", "6h", "3d", "2mo", "1y". */
+export function formatAge(timestamp: string, now: Date = new Date()): string {
+  const ms = now.getTime() - new Date(timestamp).getTime();
+  if (!Number.isFinite(ms)) return "unknown";
+  const minutes = Math.max(0, Math.floor(ms / 60_000));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h`;
+  const days = Math.floor(hours / 24);
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.floor(days / 30)}mo`;
+  return `${Math.floor(days / 365)}y`;
+}
+
+export function truncationMarker(
+  omitted: number,
+  [one, many]: [string, string] = ["memory", "memories"],
+): string {
+  return `[truncated: ${omitted} ${omitted === 1 ? one : many} omitted]`;
+}
+
+/** Split context text into headings and entries (an entry keeps its continuation lines). */
+function parseContext(context: string): ContextBlock[] {
+  const blocks: ContextBlock[] = [];
+  let current: ContextBlock | null = null;
+
+  for (const line of context.split("\n")) {
+    if (line.trim() === "") {
+      current = null;
+      continue;
+    }
+    if (!ENTRY_START.test(line) && HEADING.test(line)) {
+      current = null;
+      blocks.push({ kind: "heading", text: line });
+      continue;
+    }
+    const continuation = current !== null && /^\s+/.test(line) && !ENTRY_START.test(line);
+    if (continuation) {
+      current!.text += `\n${line}`;
+      continue;
+    }
+    current = { kind: "entry", text: line };
+    blocks.push(current);
+  }
+
+  return blocks;
+}
+
+// Search rank 40%, feedback 35% (unrated counts as neutral), recency 25% (30-day half-life)
+function experienceScore(w: WisdomEntry, index: number, total: number, now: Date): number {
+  const rank = total > 1 ? 1 - index / (total - 1) : 1;
+  const feedback = w.feedback_score !== null ? (w.feedback_score - 1) / 4 : 0.5;
+  const ageDays = Math.max(0, (now.getTime() - new Date(w.timestamp).getTime()) / 86_400_000);
+  const recency = Number.isFinite(ageDays) ? Math.pow(0.5, ageDays / 30) : 0;
+  return 0.4 * rank + 0.35 * feedback + 0.25 * recency;
+}
+
+function escapeXml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function normalizeSpace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
@@ -0,0 +1,245 @@
+/**
+ * Secret and PII redaction for text leaving the plugin.
+ *
+ * Runs on auto-captured conversations before they reach client.extract (and
+ * the offline queue), and on memory_store / memory_update content. Built-in detectors cover
+ * common credential formats, high-entropy strings, emails, phone numbers and
+ * Luhn-valid card numbers; user rules add arbitrary regexes.
+ */
+
+import { createHash } from "node:crypto";
+
+export type RedactionMode = "mask" | "hash" | "drop";
+
+export type DetectorName =
+  | "private_key"
+  | "api_key"
+  | "password"
+  | "credit_card"
+  | "email"
+  | "phone"
+  | "high_entropy";
+
+export interface RedactionRule {
+  name: string;
+  pattern: string;
+  flags?: string;
+}
+
+export interface RedactionConfig {
+  enabled: boolean;
+  mode: RedactionMode;
+  detectors: DetectorName[];
+  rules: RedactionRule[];
+}
+
+export interface RedactionMatch {
+  detector: string;
+  start: number;
+  end: number;
+  value: string;
+}
+
+/** The part of the plugin logger redaction reports go to. */
+export interface RedactionLogger {
+  info(message: string): void;
+}
+
+export interface RedactionResult {
+  text: string;
+  matches: RedactionMatch[];
+  counts: Record<string, number>;
+}
+
+interface Detector {
+  name: string;
+  pattern: RegExp;
+  /** Capture group(s) holding the secret, when the match includes a label; the first that matched wins. */
+  group?: number | number[];
+  validate?: (value: string) => boolean;
+}
+
+export const ALL_DETECTORS: DetectorName[] = [
+  "private_key",
+  "api_key",
+  "password",
+  "credit_card",
+  "email",
+  "phone",
+  "high_entropy",
+];
+
+const BUILTIN: Record<DetectorName, Omit<Detector, "name">> = {
+  private_key: {
+    pattern:
+      /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  },
+  api_key: {
+    pattern: new RegExp(
+      [
+        String.raw`\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}`, // Anthropic / OpenAI
+        String.raw`\b(?:sk|rk|pk)_(?:live|test)_[A-Za-z0-9]{16,}`, // Stripe
+        String.raw`\bgh[pousr]_[A-Za-z0-9]{36,}`, // GitHub
+        String.raw`\bgithub_pat_[A-Za-z0-9_]{40,}`,
+        String.raw`\bAKIA[0-9A-Z]{16}\b`, // AWS access key ID
+        String.raw`\bxox[abprs]-[A-Za-z0-9-]{10,}`, // Slack
+        String.raw`\bAIza[0-9A-Za-z_-]{35}`, // Google
+        String.raw`\beyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}`, // JWT
+        String.raw`(?<=\bBearer\s+)[A-Za-z0-9._~+/-]{20,}=*`,
+      ].join("|"),
+      "g",
+    ),
+  },
+  password: {
+    // After "is", only a quoted value or one mixing letters and digits counts,
+    // so prose like "the secret is that..." is left alone
+    pattern:
+      /\b(?:password|passwd|pwd|passphrase|secret|api[_-]?key|access[_-]?token)\b["']?(?:\s*[:=]\s*["']?([^\s"',;]{4,})|\s+is\s+(?:["']([^\s"']{4,})["']|((?=[^\s"',;]*\d)(?=[^\s"',;]*[A-Za-z])[^\s"',;]{6,})))/gi,
+    group: [1, 2, 3],
+  },
+  credit_card: {
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: (v) => luhnValid(v.replace(/\D/g, "")),
+  },
+  email: {
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  },
+  phone: {
+    // Never start or end inside a run of digits, dashes or colons (dates, times)
+    pattern: /(?<![\w+:.-])\+?\d[\d\s().-]{7,}\d(?![\d:-]|\.\d)/g,
+    validate: (v) => {
+      if (/\d{4}-\d{1,2}-\d{1,2}/.test(v)) return false;
+      const digits = v.replace(/\D/g, "").length;
+      return digits >= 10 && digits <= 15;
+    },
+  },
+  high_entropy: {
+    pattern: /\b[A-Za-z0-9+/_=-]{24,}\b/g,
+    validate: (v) => /[A-Za-z]/.test(v) && /\d/.test(v) && shannonEntropy(v) >= 4,
+  },
+};
+
+export class Redactor {
+  private detectors: Detector[] = [];
+  /** Rules skipped because their pattern did not compile. */
+  readonly invalidRules: Array<{ name: string; error: string }> = [];
+
+  constructor(private config: RedactionConfig) {
+    // User rules run first so they win overlaps with the built-ins
+    for (const rule of config.rules) {
+      try {
+        const flags = rule.flags ?? "";
+        this.detectors.push({
+          name: rule.name,
+          pattern: new RegExp(rule.pattern, flags.includes("g") ? flags : `${flags}g`),
+        });
+      } catch (err) {
+        this.invalidRules.push({ name: rule.name, error: (err as Error).message });
+      }
+    }
+    for (const name of ALL_DETECTORS) {
+      if (config.detectors.includes(name)) {
+        this.detectors.push({ name, ...BUILTIN[name] });
+      }
+    }
+  }
+
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /** Find all non-overlapping matches, earliest (then longest) first. */
+  scan(text: string): RedactionMatch[] {
+    const found: RedactionMatch[] = [];
+    for (const detector of this.detectors) {
+      detector.pattern.lastIndex = 0;
+      for (const m of text.matchAll(detector.pattern)) {
+        const group = [detector.group ?? []].flat().find((g) => m[g] !== undefined);
+        if (detector.group !== undefined && group === undefined) continue;
+        const value = group !== undefined ? m[group] : m[0];
+        if (!value || (detector.validate && !detector.validate(value))) continue;
+        const offset = group !== undefined ? m[0].lastIndexOf(value) : 0;
+        const start = m.index! + offset;
+        found.push({ detector: detector.name, start, end: start + value.length, value });
+      }
+    }
+
+    found.sort((a, b) => a.start - b.start || b.end - a.end);
+    const matches: RedactionMatch[] = [];
+    let cursor = 0;
+    for (const match of found) {
+      if (match.start < cursor) continue;
+      matches.push(match);
+      cursor = match.end;
+    }
+    return matches;
+  }
+
+  redact(text: string, mode: RedactionMode = this.config.mode): RedactionResult {
+    if (!this.config.enabled) return { text, matches: [], counts: {} };
+
+    const matches = this.scan(text);
+    const counts: Record<string, number> = {};
+    let out = "";
+    let cursor = 0;
+    for (const match of matches) {
+      out += text.slice(cursor, match.start) + replacement(match, mode);
+      cursor = match.end;
+      counts[match.detector] = (counts[match.detector] ?? 0) + 1;
+    }
+    out += text.slice(cursor);
+    return { text: out, matches, counts };
+  }
+}
+
+/** "api_key: 1, email: 2" — for log lines. */
+export function formatCounts(counts: Record<string, number>): string {
+  return Object.entries(counts)
+    .map(([name, n]) => `${name}: ${n}`)
+    .join(", ");
+}
+
+/** Log how many items a redaction removed, per detector; never the values. */
+export function logRedaction(logger: RedactionLogger | undefined, result: RedactionResult, where: string): void {
+  if (!logger || result.matches.length === 0) return;
+  logger.info(`Redacted ${result.matches.length} item(s) before ${where} (${formatCounts(result.counts)})`);
+}
+
+function replacement(match: RedactionMatch, mode: RedactionMode): string {
+  switch (mode) {
+    case "mask":
+      return `[REDACTED:${match.detector}]`;
+    case "hash": {
+      // Stable per value, so repeated mentions of one secret still correlate
+      const digest = createHash("sha256").update(match.value).digest("hex").slice(0, 12);
+      return `[${match.detector}:${digest}]`;
+    }
+    case "drop":
+      return "";
+  }
+}
+
+function luhnValid(digits: string): boolean {
+  if (digits.length < 13 || digits.length > 19) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = digits.charCodeAt(digits.length - 1 - i) - 48;
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+function shannonEntropy(s: string): number {
+  const freq = new Map<string, number>();
+  for (const ch of s) freq.set(ch, (freq.get(ch) ?? 0) + 1);
+  let entropy = 0;
+  for (const n of freq.values()) {
+    const p = n / s.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
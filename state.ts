@@ -0,0 +1,48 @@
+/**
+ * Local state directory for the plugin (offline queue, capture cursors, caches).
+ *
+ * Lives under the OpenClaw state dir (OPENCLAW_STATE_DIR, default ~/.openclaw)
+ * unless `stateDir` is set in the plugin config.
+ */
+
+import { mkdirSync, renameSync, writeFileSync } from "node:fs";
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join, resolve } from "node:path";
+import type { PluginConfig } from "./types.js";
+
+export function resolveStateDir(config: Pick<PluginConfig, "stateDir">): string {
+  if (config.stateDir) return resolve(expandHome(config.stateDir));
+  return join(openclawStateDir(), "memory-maasv");
+}
+
+/** The default OpenClaw agent workspace (holds MEMORY.md and memory/*.md). */
+export function defaultWorkspaceDir(): string {
+  return join(openclawStateDir(), "workspace");
+}
+
+/** Write via a temp file + rename so readers never see a partial file. */
+export function writeFileAtomic(path: string, data: string): void {
+  mkdirSync(dirname(path), { recursive: true });
+  const tmp = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmp, data, "utf8");
+  renameSync(tmp, path);
+}
+
+/** writeFileAtomic without blocking the event loop. */
+export async function writeFileAtomicAsync(path: string, data: string): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const tmp = `${path}.${process.pid}.tmp`;
+  await writeFile(tmp, data, "utf8");
+  await rename(tmp, path);
+}
+
+function openclawStateDir(): string {
+  return process.env.OPENCLAW_STATE_DIR
+    ? expandHome(process.env.OPENCLAW_STATE_DIR)
+    : join(homedir(), ".openclaw");
+}
+
+function expandHome(p: string): string {
+  return p === "~" || p.startsWith("~/") ? join(homedir(), p.slice(1)) : p;
+}
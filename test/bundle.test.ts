@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { useHarness } from "./helpers.js";
+
+const h = useHarness();
+
+function seed() {
+  // Not a sequential ID, so a reset server can't hand the same one out again
+  h.server.seedMemory({ id: "mem_exported", content: "Sam is allergic to peanuts", category: "family" });
+  const ada = h.server.seedEntity("Ada", "person");
+  const globex = h.server.seedEntity("Globex", "organization");
+  h.server.seedRelationship({ subject_id: ada.id, predicate: "works_at", object_id: globex.id });
+  h.server.seedWisdom({
+    action_type: "deploy",
+    reasoning: "Deploy staging with the old migration",
+    outcome: "failed",
+    outcome_details: "Migration lock timeout",
+    timestamp: "2025-03-01T09:00:00.000Z",
+    action_data: { env: "staging" },
+    trigger: "user request",
+    context: "release week",
+  });
+}
+
+function counts() {
+  return {
+    memories: h.server.allMemories().length,
+    relationships: h.server.allRelationships().length,
+    wisdom: h.server.allWisdom().length,
+  };
+}
+
+describe("export / import", () => {
+  it("re-importing a bundle into the same server creates nothing", async () => {
+    seed();
+    const api = h.plugin();
+    const file = join(h.stateDir, "backup.jsonl");
+    await api.runCli(["maasv", "export", file]);
+    const before = counts();
+
+    const dryRun = await api.runCli(["maasv", "import", file, "--dry-run"]);
+    assert.match(dryRun.stdout, /memory\s+0 new, 1 skipped/);
+    assert.match(dryRun.stdout, /relationship\s+0 new, 1 skipped/);
+    assert.match(dryRun.stdout, /wisdom\s+0 new, 1 skipped/);
+
+    await api.runCli(["maasv", "import", file]);
+    assert.deepEqual(counts(), before);
+
+    const { stdout } = await api.runCli(["maasv", "import", file, "--on-conflict", "overwrite"]);
+    assert.match(stdout, /relationship\s+0 new, 0 skipped, 1 overwritten/);
+    assert.deepEqual(counts(), before);
+  });
+
+  it("matches memories on content and imported_from when IDs differ", async () => {
+    seed();
+    const api = h.plugin();
+    const file = join(h.stateDir, "backup.jsonl");
+    await api.runCli(["maasv", "export", file]);
+
+    // A different server: same content gets different IDs
+    h.server.reset();
+    h.server.seedMemory({ content: "Unrelated note", category: "context" });
+    await api.runCli(["maasv", "import", file]);
+    const imported = counts();
+    assert.deepEqual(imported, { memories: 2, relationships: 1, wisdom: 1 });
+
+    const { stdout } = await api.runCli(["maasv", "import", file]);
+    assert.match(stdout, /memory\s+0 new, 1 skipped/);
+    assert.deepEqual(counts(), imported);
+  });
+
+  it("counts entities the same way in dry runs and real imports", async () => {
+    seed();
+    const api = h.plugin();
+    const file = join(h.stateDir, "backup.jsonl");
+    await api.runCli(["maasv", "export", file]);
+
+    // Another server that already knows Ada under a different ID
+    h.server.reset();
+    h.server.seedEntity("Grace", "person");
+    h.server.seedEntity("Ada", "person");
+    const dryRun = await api.runCli(["maasv", "import", file, "--dry-run"]);
+    assert.match(dryRun.stdout, /entity\s+1 new, 1 skipped/);
+    const { stdout } = await api.runCli(["maasv", "import", file, "--on-conflict", "overwrite"]);
+    assert.match(stdout, /entity\s+1 new, 1 skipped/);
+    assert.deepEqual(h.server.allEntities().map((e) => e.name).sort(), ["Ada", "Globex", "Grace"]);
+  });
+
+  it("carries wisdom fields through a round trip", async () => {
+    seed();
+    const api = h.plugin();
+    const file = join(h.stateDir, "backup.jsonl");
+    await api.runCli(["maasv", "export", file]);
+    h.server.reset();
+    await api.runCli(["maasv", "import", file]);
+
+    const [w] = h.server.allWisdom();
+    assert.equal(w.timestamp, "2025-03-01T09:00:00.000Z");
+    assert.deepEqual(w.action_data, { env: "staging" });
+    assert.equal(w.trigger, "user request");
+    assert.equal(w.context, "release week");
+    assert.equal(w.outcome, "failed");
+  });
+
+  it("rejects unknown record types", async () => {
+    const { stderr } = await h.plugin().runCli(["maasv", "export", join(h.stateDir, "x.jsonl"), "--types", "memory,wisdoms"]);
+    assert.match(stderr, /Unknown record type\(s\): wisdoms/);
+  });
+});
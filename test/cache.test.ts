@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { useHarness } from "./helpers.js";
+
+const h = useHarness();
+
+describe("recall cache", () => {
+  it("serves repeat searches with the same normalized query from the cache", async () => {
+    h.server.seedMemory({ content: "The VPN endpoint is vpn.example.com", category: "project" });
+    const api = h.plugin();
+    const first = await api.callTool("memory_search", { query: "VPN endpoint?" });
+    const second = await api.callTool("memory_search", { query: "  vpn   endpoint" });
+    assert.equal(second, first);
+    assert.equal(h.server.requestsTo("/v1/memory/search").length, 1);
+
+    await api.callTool("memory_search", { query: "vpn endpoint", limit: 1 });
+    assert.equal(h.server.requestsTo("/v1/memory/search").length, 2);
+  });
+
+  it("coalesces concurrent identical recalls into one request", async () => {
+    h.server.seedMemory({ content: "Sam is allergic to peanuts", category: "family" });
+    h.server.inject({ path: "/v1/memory/context", latencyMs: 200 });
+    const api = h.plugin();
+    const results = await Promise.all([
+      api.emit("before_agent_start", { userMessage: "any allergies?" }),
+      api.emit("before_agent_start", { userMessage: "Any allergies" }),
+    ]);
+    assert.equal(h.server.requestsTo("/v1/memory/context").length, 1);
+    for (const [result] of results) {
+      assert.match((result as { prependContext: string }).prependContext, /allergic to peanuts/);
+    }
+  });
+
+  it("is cleared by writes through the plugin", async () => {
+    const ada = h.server.seedEntity("Ada", "person");
+    const api = h.plugin();
+    assert.match(await api.callTool("memory_search", { query: "parking" }), /No memories found/);
+    await api.callTool("memory_store", { content: "Parking spot is B12", category: "context" });
+    assert.match(await api.callTool("memory_search", { query: "parking" }), /Parking spot is B12/);
+
+    await api.callTool("memory_graph", { action: "profile", entity_id: ada.id });
+    await api.callTool("memory_graph", {
+      action: "add_relationship",
+      subject_id: ada.id,
+      predicate: "lives_in",
+      object_value: "London",
+    });
+    assert.match(await api.callTool("memory_graph", { action: "profile", entity_id: ada.id }), /London/);
+    assert.equal(h.server.requestsTo(`/v1/graph/entities/${ada.id}`, "GET").length, 2);
+  });
+
+  it("reports hit rates in stats", async () => {
+    const api = h.plugin();
+    await api.callTool("memory_search", { query: "vpn" });
+    await api.callTool("memory_search", { query: "VPN" });
+
+    const { data } = await api.callGateway("maasv.stats");
+    assert.deepEqual(data.recall_cache.searchMemories, { hits: 1, misses: 1, coalesced: 0 });
+    const { stdout } = await api.runCli(["maasv", "stats"]);
+    assert.match(stdout, /Recall cache \(since .+\):/);
+    assert.match(stdout, /searchMemories\s+50% \(1\/2 served from cache, 0 coalesced\)/);
+  });
+
+  it("can be turned off", async () => {
+    const api = h.plugin({ recallCache: false });
+    await api.callTool("memory_search", { query: "vpn" });
+    await api.callTool("memory_search", { query: "vpn" });
+    assert.equal(h.server.requestsTo("/v1/memory/search").length, 2);
+    assert.match((await api.runCli(["maasv", "stats"])).stdout, /Recall cache: disabled/);
+  });
+});
@@ -0,0 +1,134 @@
+import assert from "node:assert/strict";
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { useHarness } from "./helpers.js";
+
+const h = useHarness();
+
+describe("CLI", () => {
+  it("registers the maasv command", () => {
+    assert.deepEqual(h.plugin().cliRegistrations.map((r) => r.opts), [{ commands: ["maasv"] }]);
+  });
+
+  it("reports health and circuit state", async () => {
+    const { stdout } = await h.plugin().runCli(["maasv", "health"]);
+    assert.match(stdout, /Status: healthy/);
+    assert.match(stdout, /Circuit: closed/);
+  });
+
+  it("searches within --namespace", async () => {
+    h.server.seedMemory({ content: "Quarterly review is in June", namespace: "work" });
+    h.server.seedMemory({ content: "Quarterly dentist visit", namespace: "home" });
+    const { stdout } = await h.plugin().runCli(["maasv", "--namespace", "work", "search", "quarterly"]);
+    assert.match(stdout, /Quarterly review is in June/);
+    assert.doesNotMatch(stdout, /dentist/);
+  });
+
+  it("migrates the same flat files into each namespace once", async () => {
+    const workspace = join(h.stateDir, "workspace");
+    mkdirSync(workspace);
+    writeFileSync(join(workspace, "MEMORY.md"), "## Preferences\n- Likes oat milk in coffee\n");
+    const api = h.plugin();
+
+    assert.match((await api.runCli(["maasv", "migrate", workspace])).stdout, /Imported 1,/);
+    assert.match((await api.runCli(["maasv", "migrate", workspace])).stdout, /Imported 0,.*skipped \(already migrated\) 1/);
+    assert.match((await api.runCli(["maasv", "--namespace", "work", "migrate", workspace])).stdout, /Imported 1,/);
+    assert.equal(h.server.allMemories().length, 2);
+  });
+
+  it("reports a corrupt migration ledger clearly", async () => {
+    const workspace = join(h.stateDir, "workspace");
+    mkdirSync(workspace);
+    writeFileSync(join(workspace, "MEMORY.md"), "- Likes oat milk in coffee\n");
+    writeFileSync(join(h.stateDir, "migrate-ledger.json"), "{not json");
+    const { stderr } = await h.plugin().runCli(["maasv", "migrate", workspace]);
+    assert.match(stderr, /Migration failed: Migration ledger .* is corrupt .*move it aside to start fresh/);
+  });
+
+  it("records a stored chunk even when its extraction fails", async () => {
+    const workspace = join(h.stateDir, "workspace");
+    mkdirSync(workspace);
+    writeFileSync(join(workspace, "MEMORY.md"), "- Priya works at Globex\n");
+    h.server.inject({ path: "/v1/extract", status: 400, times: 1 });
+    const api = h.plugin();
+
+    const first = await api.runCli(["maasv", "migrate", workspace, "--extract"]);
+    assert.match(first.stdout, /Imported 1, .*failed 0/);
+    assert.match(first.stdout, /Entity extraction failed for 1 stored chunk/);
+    const second = await api.runCli(["maasv", "migrate", workspace, "--extract"]);
+    assert.match(second.stdout, /skipped \(already migrated\) 1/);
+    assert.equal(h.server.allMemories().filter((m) => /Priya/.test(m.content)).length, 1);
+  });
+
+  it("prints failures instead of throwing", async () => {
+    h.server.inject({ path: "/v1/stats", status: 500 });
+    const { stderr } = await h.plugin().runCli(["maasv", "stats"]);
+    assert.match(stderr, /^Failed: maasv-server GET \/v1\/stats failed: 500/);
+  });
+
+  it("exports the graph as DOT to a file", async () => {
+    const ada = h.server.seedEntity("Ada", "person");
+    const acme = h.server.seedEntity("Acme", "organization");
+    h.server.seedRelationship({ subject_id: ada.id, predicate: "works_at", object_id: acme.id, confidence: 0.9 });
+    const file = join(h.stateDir, "graph.dot");
+
+    const { stderr } = await h.plugin().runCli(["maasv", "graph", "export", file, "--root", ada.id]);
+    assert.match(stderr, /Exported 2 nodes, 1 edges/);
+    assert.match(readFileSync(file, "utf8"), /"ent_1" -> "ent_2" \[label="works_at \(0.90\)"/);
+  });
+
+  it("renames an entity and keeps the old name unless --no-keep-alias", async () => {
+    const api = h.plugin();
+    const kept = h.server.seedEntity("Bobby", "person");
+    const dropped = h.server.seedEntity("Jo", "person");
+    await api.runCli(["maasv", "graph", "rename", kept.id, "Robert"]);
+    await api.runCli(["maasv", "graph", "rename", dropped.id, "Joanna", "--no-keep-alias"]);
+
+    const [robert, joanna] = h.server.allEntities();
+    assert.deepEqual([robert.name, robert.aliases], ["Robert", ["Bobby"]]);
+    assert.deepEqual([joanna.name, joanna.aliases], ["Joanna", []]);
+  });
+});
+
+describe("gateway methods", () => {
+  it("reports status with breaker state and namespace", async () => {
+    const { ok, data } = await h.plugin().callGateway("maasv.status", { namespace: "work" });
+    assert.equal(ok, true);
+    assert.equal(data.status, "healthy");
+    assert.equal(data.breaker.state, "closed");
+    assert.equal(data.namespace, "work");
+  });
+
+  it("responds with an error when the server is unreachable", async () => {
+    const api = h.plugin({ serverUrl: "http://127.0.0.1:9" });
+    const { ok, data } = await api.callGateway("maasv.stats");
+    assert.equal(ok, false);
+    assert.match(data.error, /unreachable/);
+  });
+
+  it("returns the graph as JSON", async () => {
+    const ada = h.server.seedEntity("Ada", "person");
+    h.server.seedRelationship({ subject_id: ada.id, predicate: "lives_in", object_value: "London" });
+    const { ok, data } = await h.plugin().callGateway("maasv.graph", {});
+    assert.equal(ok, true);
+    assert.deepEqual(
+      data.nodes.map((n: { label: string; type: string }) => `${n.label}:${n.type}`),
+      ["Ada:person", "London:value"],
+    );
+    assert.equal(data.edges[0].predicate, "lives_in");
+  });
+
+  it("builds the wisdom report", async () => {
+    h.server.seedWisdom({ action_type: "deploy", reasoning: "Ship it", outcome: "success", feedback_score: 4 });
+    h.server.seedWisdom({ action_type: "deploy", reasoning: "Ship again", outcome: "failed", outcome_details: "Health check 503" });
+    h.server.seedWisdom({ action_type: "refactor", reasoning: "Split module" });
+
+    const { ok, data } = await h.plugin().callGateway("maasv.wisdom.report", { window: "day", windows: 1 });
+    assert.equal(ok, true);
+    assert.equal(data.overall.total, 3);
+    assert.equal(data.overall.successRate, 0.5);
+    assert.deepEqual(data.failureReasons.map((r: { reason: string }) => r.reason), ["health check N"]);
+    assert.equal(data.missingOutcomes[0].action_type, "refactor");
+  });
+});
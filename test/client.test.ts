@@ -0,0 +1,133 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { CircuitOpenError, MaasvError, isUnavailableError } from "../client.js";
+import { useHarness } from "./helpers.js";
+
+const h = useHarness();
+
+describe("MaasvClient", () => {
+  it("stores, dedups and searches memories", async () => {
+    const client = h.client();
+    const first = await client.storeMemory({ content: "Alice prefers dark roast coffee", category: "preference" });
+    const again = await client.storeMemory({ content: "alice prefers dark-roast coffee.", category: "preference" });
+    await client.storeMemory({ content: "The build runs on Node 20", category: "fact" });
+    assert.equal(again.memory_id, first.memory_id);
+
+    const { results } = await client.searchMemories({ query: "what coffee does Alice like?" });
+    assert.equal(results.length, 1);
+    assert.equal(results[0].id, first.memory_id);
+    assert.ok((results[0].relevance ?? 0) > 0);
+  });
+
+  it("supersedes memories and returns the whole version chain", async () => {
+    const client = h.client();
+    const { memory_id } = await client.storeMemory({ content: "Deploys happen on Fridays", category: "fact" });
+    const v2 = await client.supersedeMemory(memory_id, "Deploys happen on Thursdays");
+    const v3 = await client.supersedeMemory(v2.memory_id, "Deploys happen on Wednesdays");
+
+    const history = await client.getMemoryHistory(v2.memory_id);
+    assert.deepEqual(
+      history.versions.map((v) => v.id),
+      [memory_id, v2.memory_id, v3.memory_id],
+    );
+    const { results } = await client.searchMemories({ query: "deploys" });
+    assert.deepEqual(results.map((m) => m.id), [v3.memory_id]);
+  });
+
+  it("scopes writes and reads to a namespace", async () => {
+    const client = h.client();
+    await client.withNamespace("work").storeMemory({ content: "Standup is at 9:30", category: "fact" });
+    await client.withNamespace("home").storeMemory({ content: "Standup desk arrives Monday", category: "fact" });
+
+    const { results } = await client.withNamespace("work").searchMemories({ query: "standup" });
+    assert.deepEqual(results.map((m) => m.content), ["Standup is at 9:30"]);
+    const [search] = h.server.requestsTo("/v1/memory/search");
+    assert.equal(search.headers["x-maasv-namespace"], "work");
+  });
+
+  it("extracts entities and relationships from text", async () => {
+    const client = h.client();
+    const result = await client.extract("Alice works at Acme. Alice lives in Berlin. Nothing else.");
+    assert.equal(result.extraction.relationships?.length, 2);
+
+    const [alice] = (await client.searchEntities("alice")).results;
+    const profile = await client.getEntityProfile(alice.id);
+    assert.deepEqual(Object.keys(profile.relationships).sort(), ["lives_in", "works_at"]);
+    assert.equal(profile.related_entities.length, 2);
+  });
+
+  it("hides ended relationships unless asked for them", async () => {
+    const client = h.client();
+    const bob = await client.findOrCreateEntity("Bob", "person");
+    const acme = await client.findOrCreateEntity("Acme", "organization");
+    const { relationship_id } = await client.addRelationship({
+      subject_id: bob.id,
+      predicate: "works_at",
+      object_id: acme.id,
+    });
+    await client.endRelationship(relationship_id, "2020-01-01T00:00:00.000Z");
+
+    assert.deepEqual((await client.getEntityProfile(bob.id)).relationships, {});
+    const withEnded = await client.getEntityProfile(bob.id, { includeEnded: true });
+    assert.equal(withEnded.relationships.works_at[0].valid_to, "2020-01-01T00:00:00.000Z");
+  });
+
+  it("retries idempotent reads after a 5xx", async () => {
+    h.server.inject({ path: "/v1/memory/search", status: 503, times: 1 });
+    const client = h.client({ maxRetries: 1 });
+    const { results } = await client.searchMemories({ query: "anything" });
+    assert.deepEqual(results, []);
+    assert.equal(h.server.requestsTo("/v1/memory/search").length, 2);
+  });
+
+  it("does not retry writes after a 5xx", async () => {
+    h.server.inject({ path: "/v1/memory/store", status: 500 });
+    const client = h.client({ maxRetries: 2 });
+    await assert.rejects(
+      client.storeMemory({ content: "x", category: "fact" }),
+      (err: unknown) => err instanceof MaasvError && err.status === 500 && isUnavailableError(err),
+    );
+    assert.equal(h.server.requestsTo("/v1/memory/store").length, 1);
+  });
+
+  it("treats 4xx as a bad request rather than an outage", async () => {
+    await assert.rejects(
+      h.client().getMemory("mem_missing"),
+      (err: unknown) => err instanceof MaasvError && err.status === 404 && !isUnavailableError(err),
+    );
+  });
+
+  it("times out slow responses", async () => {
+    h.server.inject({ path: "/v1/memory/context", latencyMs: 300 });
+    const client = h.client({ recallTimeoutMs: 50 });
+    await assert.rejects(client.getContext({ query: "slow" }), /timed out after 50ms/);
+  });
+
+  it("surfaces malformed JSON responses as errors", async () => {
+    h.server.inject({ path: "/v1/stats", malformed: true });
+    await assert.rejects(
+      h.client().stats(),
+      (err: unknown) =>
+        err instanceof MaasvError &&
+        err.status === 200 &&
+        isUnavailableError(err) &&
+        /GET \/v1\/stats returned malformed JSON \(200\): \S/.test(err.message),
+    );
+  });
+
+  it("opens the circuit after repeated failures and recovers via health()", async () => {
+    h.server.inject({ path: "/v1/memory/list", status: 502 });
+    const client = h.client({ breakerThreshold: 2, breakerCooldownMs: 60_000 });
+    for (let i = 0; i < 2; i++) {
+      await assert.rejects(client.listMemories({}), MaasvError);
+    }
+    assert.equal(client.breakerStatus().state, "open");
+    await assert.rejects(client.listMemories({}), CircuitOpenError);
+    assert.equal(h.server.requestsTo("/v1/memory/list").length, 2);
+
+    h.server.clearFaults();
+    assert.equal((await client.health()).status, "healthy");
+    assert.equal(client.breakerStatus().state, "closed");
+    assert.deepEqual((await client.listMemories({})).results, []);
+  });
+});
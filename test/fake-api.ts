@@ -0,0 +1,236 @@
+/**
+ * Fake OpenClaw plugin API for offline tests.
+ *
+ * Records everything the plugin registers (tools, hooks, gateway methods,
+ * CLI commands, services, log lines) and offers helpers to drive them:
+ * instantiate and run a tool, emit a hook, call a gateway method, or run a
+ * CLI command line with console output captured. The CLI side is a small
+ * commander look-alike covering what the plugin uses: nested commands,
+ * `<required>` / `[optional]` arguments, value and boolean options,
+ * defaults and `--no-*` negation.
+ */
+
+import plugin from "../index.js";
+
+export interface LogLine {
+  level: "info" | "warn" | "error" | "debug";
+  message: string;
+}
+
+export interface ToolResult {
+  content: Array<{ type: "text"; text: string }>;
+}
+
+interface RegisteredTool {
+  factory: (ctx: any) => any;
+  opts: { name: string; optional?: boolean };
+}
+
+type GatewayHandler = (req: {
+  params?: Record<string, unknown>;
+  respond: (ok: boolean, data: unknown) => void;
+}) => Promise<void> | void;
+
+export class FakeOpenClawApi {
+  readonly tools = new Map<string, RegisteredTool>();
+  readonly hooks: Array<{ name: string; handler: (event: any, ctx?: any) => unknown }> = [];
+  readonly gatewayMethods = new Map<string, GatewayHandler>();
+  readonly services: Array<{ id: string; start(): Promise<void> | void; stop(): Promise<void> | void }> = [];
+  readonly cliRegistrations: Array<{ register: (ctx: { program: any }) => void; opts: unknown }> = [];
+  readonly logs: LogLine[] = [];
+
+  readonly logger = {
+    info: (message: string) => this.logs.push({ level: "info", message }),
+    warn: (message: string) => this.logs.push({ level: "warn", message }),
+    error: (message: string) => this.logs.push({ level: "error", message }),
+    debug: (message: string) => this.logs.push({ level: "debug", message }),
+  };
+
+  constructor(readonly pluginConfig: Record<string, unknown> = {}) {}
+
+  // --- Registration surface (what the plugin calls) ---
+
+  registerTool(factory: (ctx: any) => any, opts: { name: string; optional?: boolean }): void {
+    this.tools.set(opts.name, { factory, opts });
+  }
+
+  on(name: string, handler: (event: any, ctx?: any) => unknown): void {
+    this.hooks.push({ name, handler });
+  }
+
+  registerGatewayMethod(name: string, handler: GatewayHandler): void {
+    this.gatewayMethods.set(name, handler);
+  }
+
+  registerCli(register: (ctx: { program: any }) => void, opts?: unknown): void {
+    this.cliRegistrations.push({ register, opts });
+  }
+
+  registerService(service: { id: string; start(): Promise<void> | void; stop(): Promise<void> | void }): void {
+    this.services.push(service);
+  }
+
+  // --- Driving the plugin (what tests call) ---
+
+  /** Instantiate a registered tool for an agent context. */
+  tool(name: string, ctx: any = {}): any {
+    const registered = this.tools.get(name);
+    if (!registered) throw new Error(`Tool ${name} is not registered`);
+    return registered.factory(ctx);
+  }
+
+  /** Run a tool and return the text of its result. */
+  async callTool(name: string, params: Record<string, unknown>, ctx: any = {}): Promise<string> {
+    const result: ToolResult = await this.tool(name, ctx).execute("call_1", params);
+    return result.content.map((c) => c.text).join("\n");
+  }
+
+  /** Run every handler for a hook in registration order; returns their results. */
+  async emit(name: string, event: any, ctx: any = {}): Promise<unknown[]> {
+    const results: unknown[] = [];
+    for (const hook of this.hooks.filter((h) => h.name === name)) {
+      results.push(await hook.handler(event, ctx));
+    }
+    return results;
+  }
+
+  hookCount(name: string): number {
+    return this.hooks.filter((h) => h.name === name).length;
+  }
+
+  async callGateway(name: string, params?: Record<string, unknown>): Promise<{ ok: boolean; data: any }> {
+    const handler = this.gatewayMethods.get(name);
+    if (!handler) throw new Error(`Gateway method ${name} is not registered`);
+    let response: { ok: boolean; data: any } | null = null;
+    await handler({ params, respond: (ok, data) => (response = { ok, data }) });
+    if (!response) throw new Error(`Gateway method ${name} never responded`);
+    return response;
+  }
+
+  /**
+   * Run a command line such as `["maasv", "search", "tabs"]` against the
+   * registered CLI, capturing console.log / console.error.
+   */
+  async runCli(argv: string[]): Promise<{ stdout: string; stderr: string }> {
+    const program = new FakeCommand("openclaw");
+    for (const { register } of this.cliRegistrations) register({ program });
+
+    const stdout: string[] = [];
+    const stderr: string[] = [];
+    const { log, error } = console;
+    console.log = (...args: unknown[]) => stdout.push(args.map(String).join(" "));
+    console.error = (...args: unknown[]) => stderr.push(args.map(String).join(" "));
+    try {
+      await program.run(argv);
+    } finally {
+      console.log = log;
+      console.error = error;
+    }
+    return { stdout: stdout.join("\n"), stderr: stderr.join("\n") };
+  }
+
+  async startServices(): Promise<void> {
+    for (const service of this.services) await service.start();
+  }
+
+  async stopServices(): Promise<void> {
+    for (const service of this.services) await service.stop();
+  }
+
+  logged(level: LogLine["level"], pattern: RegExp): boolean {
+    return this.logs.some((l) => l.level === level && pattern.test(l.message));
+  }
+}
+
+/** Register the plugin against a fresh fake API. */
+export function loadPlugin(pluginConfig: Record<string, unknown>): FakeOpenClawApi {
+  const api = new FakeOpenClawApi(pluginConfig);
+  plugin.register(api);
+  return api;
+}
+
+// --- Minimal commander stand-in ---
+
+interface OptionSpec {
+  key: string;
+  short?: string;
+  long: string;
+  takesValue: boolean;
+  negate: boolean;
+  defaultValue?: unknown;
+}
+
+class FakeCommand {
+  private children: FakeCommand[] = [];
+  private args: Array<{ name: string; required: boolean; defaultValue?: unknown }> = [];
+  private options: OptionSpec[] = [];
+  private values: Record<string, unknown> = {};
+  private handler: ((...args: any[]) => unknown) | null = null;
+
+  constructor(readonly name: string) {}
+
+  command(name: string): FakeCommand {
+    const child = new FakeCommand(name);
+    this.children.push(child);
+    return child;
+  }
+
+  description(_text: string): this {
+    return this;
+  }
+
+  argument(spec: string, _description?: string, defaultValue?: unknown): this {
+    this.args.push({ name: spec.slice(1, -1), required: spec.startsWith("<"), defaultValue });
+    return this;
+  }
+
+  option(flags: string, _description?: string, defaultValue?: unknown): this {
+    const short = /(?:^|\s)(-\w)\b/.exec(flags)?.[1];
+    const long = /--([\w-]+)/.exec(flags)?.[1];
+    if (!long) throw new Error(`Unsupported option flags: ${flags}`);
+    const negate = long.startsWith("no-");
+    const key = camelCase(negate ? long.slice(3) : long);
+    this.options.push({ key, short, long: `--${long}`, takesValue: /[<[]/.test(flags), negate, defaultValue });
+    if (negate) this.values[key] = true;
+    else if (defaultValue !== undefined) this.values[key] = defaultValue;
+    return this;
+  }
+
+  action(fn: (...args: any[]) => unknown): this {
+    this.handler = fn;
+    return this;
+  }
+
+  opts(): Record<string, any> {
+    return this.values;
+  }
+
+  async run(argv: string[]): Promise<void> {
+    const positionals: string[] = [];
+    for (let i = 0; i < argv.length; i++) {
+      const token = argv[i];
+      if (token.startsWith("-") && token !== "-") {
+        const [flag, inline] = token.split(/=(.*)/s, 2);
+        const option = this.options.find((o) => o.long === flag || o.short === flag);
+        if (!option) throw new Error(`${this.name}: unknown option ${flag}`);
+        if (option.negate) this.values[option.key] = false;
+        else if (option.takesValue) this.values[option.key] = inline ?? argv[++i];
+        else this.values[option.key] = true;
+        continue;
+      }
+      const child = positionals.length === 0 && this.children.find((c) => c.name === token);
+      if (child) return child.run(argv.slice(i + 1));
+      positionals.push(token);
+    }
+
+    if (!this.handler) throw new Error(`${this.name}: no subcommand given`);
+    const missing = this.args.find((a, i) => a.required && positionals[i] === undefined);
+    if (missing) throw new Error(`${this.name}: missing argument <${missing.name}>`);
+    const args = this.args.map((a, i) => positionals[i] ?? a.defaultValue);
+    await this.handler(...args, this.values, this);
+  }
+}
+
+function camelCase(flag: string): string {
+  return flag.replace(/-(\w)/g, (_, c: string) => c.toUpperCase());
+}
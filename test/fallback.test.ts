@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { useHarness } from "./helpers.js";
+
+const h = useHarness();
+
+// The recall cache would answer repeat reads before the fallback store does
+const DEGRADED = { fallbackCache: true, recallCache: false };
+
+describe("degraded mode (fallbackCache)", () => {
+  it("serves searches from the cache while the server returns 5xx", async () => {
+    h.server.seedMemory({ content: "The VPN endpoint is vpn.example.com", category: "project" });
+    const api = h.plugin(DEGRADED);
+    assert.match(await api.callTool("memory_search", { query: "vpn endpoint" }), /^Found 1 memories/);
+
+    h.server.inject({ status: 503 });
+    const text = await api.callTool("memory_search", { query: "VPN" });
+    assert.match(text, /^\[maasv-server unavailable/);
+    assert.match(text, /vpn\.example\.com/);
+  });
+
+  it("keeps memories stored offline findable until the queue replays them", async () => {
+    const api = h.plugin(DEGRADED);
+    h.server.inject({ status: 503 });
+    assert.match(
+      await api.callTool("memory_store", { content: "Parking spot is B12", category: "context" }),
+      /queued memory for replay/,
+    );
+    assert.match(await api.callTool("memory_search", { query: "parking spot" }), /Parking spot is B12/);
+
+    h.server.clearFaults();
+    await api.runCli(["maasv", "queue", "flush"]);
+    const [stored] = h.server.allMemories();
+    h.server.inject({ status: 503 });
+    const text = await api.callTool("memory_search", { query: "parking spot" });
+    assert.match(text, new RegExp(`id: ${stored.id}`));
+    assert.doesNotMatch(text, /pending_/);
+  });
+
+  it("serves cached entity profiles and marks them", async () => {
+    const ada = h.server.seedEntity("Ada", "person");
+    h.server.seedRelationship({ subject_id: ada.id, predicate: "lives_in", object_value: "London" });
+    const api = h.plugin(DEGRADED);
+    await api.callTool("memory_graph", { action: "profile", entity_id: ada.id });
+
+    h.server.inject({ status: 503 });
+    const profile = await api.callTool("memory_graph", { action: "profile", entity_id: ada.id });
+    assert.match(profile, /^\[maasv-server unavailable[\s\S]*lives_in: London/);
+    assert.match(await api.callTool("memory_graph", { action: "search", query: "ada" }), /Ada \(person\)/);
+  });
+
+  it("marks auto-recall served from the cache", async () => {
+    h.server.seedMemory({ content: "Sam is allergic to peanuts", category: "family" });
+    const api = h.plugin(DEGRADED);
+    await api.emit("before_agent_start", { userMessage: "peanuts" });
+
+    h.server.inject({ status: 503 });
+    const [result] = await api.emit("before_agent_start", { userMessage: "any allergies?" });
+    const context = (result as { prependContext: string }).prependContext;
+    assert.match(context, /^<long_term_memory source="fallback-cache">/);
+    assert.match(context, /allergic to peanuts/);
+  });
+
+  it("reports degraded vs connected health", async () => {
+    const api = h.plugin(DEGRADED);
+    assert.equal((await api.callGateway("maasv.status")).data.mode, "connected");
+
+    h.server.inject({ status: 503 });
+    const { ok, data } = await api.callGateway("maasv.status");
+    assert.equal(ok, true);
+    assert.equal(data.status, "degraded");
+    assert.deepEqual(data.fallback, { memories: 0, pending: 0, profiles: 0 });
+    assert.match((await api.runCli(["maasv", "health"])).stdout, /Mode: degraded/);
+  });
+
+  it("keeps each namespace's cached data to itself", async () => {
+    const api = h.plugin({ ...DEGRADED, namespaceFrom: "agent" });
+    const alice = { agentId: "alice" };
+    const bob = { agentId: "bob" };
+    const stored = await api.callTool("memory_store", { content: "Alice's locker code is on file", category: "context" }, alice);
+    const id = stored.match(/mem_\w+/)![0];
+    await api.callTool("memory_get", { id }, alice);
+    const ada = h.server.seedEntity("Ada", "person");
+    await api.callTool("memory_graph", { action: "profile", entity_id: ada.id }, alice);
+
+    h.server.inject({ status: 503 });
+    assert.match(await api.callTool("memory_get", { id }, alice), /locker code/);
+    assert.match(await api.callTool("memory_get", { id }, bob), /Failed to get memory/);
+    assert.match(await api.callTool("memory_graph", { action: "profile", entity_id: ada.id }, alice), /Ada/);
+    await assert.rejects(api.callTool("memory_graph", { action: "profile", entity_id: ada.id }, bob), /503/);
+    assert.doesNotMatch(await api.callTool("memory_graph", { action: "search", query: "ada" }, bob), /Ada \(person\)/);
+    assert.match(await api.callTool("memory_graph", { action: "search", query: "ada" }, alice), /Ada \(person\)/);
+  });
+
+  it("writes the cache to disk in the background and on stop", async () => {
+    h.server.seedMemory({ content: "The VPN endpoint is vpn.example.com", category: "project" });
+    const api = h.plugin(DEGRADED);
+    await api.callTool("memory_search", { query: "vpn endpoint" });
+    await api.stopServices();
+
+    h.server.inject({ status: 503 });
+    const restarted = h.plugin(DEGRADED);
+    assert.match(await restarted.callTool("memory_search", { query: "VPN" }), /vpn\.example\.com/);
+  });
+
+  it("still fails reads the cache can't answer", async () => {
+    const api = h.plugin(DEGRADED);
+    h.server.inject({ status: 503 });
+    assert.match(await api.callTool("memory_get", { id: "mem_unknown" }), /Failed to get memory mem_unknown: .*503/);
+  });
+});
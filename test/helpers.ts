@@ -0,0 +1,57 @@
+/**
+ * Shared setup for tests: a mock maasv-server per suite, a temp state dir
+ * per test, and the plugin registered against the fake OpenClaw API.
+ */
+
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, afterEach, before, beforeEach } from "node:test";
+import { MaasvClient } from "../client.js";
+import { loadPlugin, type FakeOpenClawApi } from "./fake-api.js";
+import { MockMaasvServer } from "./mock-server.js";
+
+export interface Harness {
+  server: MockMaasvServer;
+  stateDir: string;
+  /** Register the plugin with test defaults merged under `config`. */
+  plugin(config?: Record<string, unknown>): FakeOpenClawApi;
+  /** A bare client for the mock server. */
+  client(config?: Record<string, unknown>): MaasvClient;
+}
+
+// Fast failures: no retry backoff, no circuit tripping unless a test asks
+const TEST_CONFIG = {
+  maxRetries: 0,
+  breakerThreshold: 1000,
+  requestTimeoutMs: 2_000,
+  recallTimeoutMs: 1_000,
+  queueFlushIntervalMs: 60_000,
+};
+
+/** Call at the top level of a test file; fields are valid inside tests. */
+export function useHarness(): Harness {
+  const server = new MockMaasvServer();
+  const harness: Harness = {
+    server,
+    stateDir: "",
+    plugin: (config = {}) =>
+      loadPlugin({ serverUrl: server.url, stateDir: harness.stateDir, ...TEST_CONFIG, ...config }),
+    client: (config = {}) => new MaasvClient({ serverUrl: server.url, ...TEST_CONFIG, ...config }),
+  };
+
+  before(async () => {
+    await server.start();
+  });
+  after(async () => {
+    await server.stop();
+  });
+  beforeEach(() => {
+    server.reset();
+    harness.stateDir = mkdtempSync(join(tmpdir(), "maasv-test-"));
+  });
+  afterEach(() => {
+    rmSync(harness.stateDir, { recursive: true, force: true });
+  });
+  return harness;
+}
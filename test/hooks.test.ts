@@ -0,0 +1,313 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { useHarness } from "./helpers.js";
+
+const h = useHarness();
+
+const conversation = (...texts: string[]) => ({
+  messages: texts.map((text, i) => ({ role: i % 2 === 0 ? "user" : "assistant", content: text })),
+});
+
+describe("auto-recall (before_agent_start)", () => {
+  it("prepends tiered context for the latest user message", async () => {
+    h.server.seedMemory({ content: "User's name is Sam", category: "identity" });
+    h.server.seedMemory({ content: "The staging database runs Postgres 16", category: "project" });
+    const api = h.plugin();
+
+    const [result] = await api.emit("before_agent_start", conversation("Which Postgres version is on staging?"));
+    const context = (result as { prependContext: string }).prependContext;
+    assert.match(context, /^<long_term_memory>/);
+    assert.match(context, /User's name is Sam/);
+    assert.match(context, /Postgres 16/);
+  });
+
+  it("renders structured recall with memory ids", async () => {
+    const memory = h.server.seedMemory({ content: "Sam prefers tabs over spaces", category: "preference" });
+    const api = h.plugin({ recallFormat: "structured" });
+
+    const [result] = await api.emit("before_agent_start", { userMessage: "tabs or spaces?" });
+    const context = (result as { prependContext: string }).prependContext;
+    assert.match(context, /format="structured"/);
+    assert.match(context, new RegExp(`id="${memory.id}"`));
+  });
+
+  it("adds past_experience from wisdom search", async () => {
+    h.server.seedWisdom({ action_type: "deploy", reasoning: "Deploy staging with the old migration", outcome: "failed", outcome_details: "Migration lock timeout" });
+    const api = h.plugin({ enableWisdom: true });
+
+    const [result] = await api.emit("before_agent_start", { userMessage: "deploy staging again" });
+    assert.match((result as { prependContext: string }).prependContext, /<past_experience>[\s\S]*outcome="failed"/);
+  });
+
+  it("degrades to no context when the server errors", async () => {
+    h.server.inject({ path: "/v1/memory/context", status: 500 });
+    const api = h.plugin();
+
+    const [result] = await api.emit("before_agent_start", { userMessage: "what's on my calendar" });
+    assert.equal(result, undefined);
+    assert.ok(api.logged("warn", /Auto-recall failed/));
+  });
+
+  it("skips recall for greetings and acknowledgements", async () => {
+    h.server.seedMemory({ content: "User's name is Sam", category: "identity" });
+    const api = h.plugin();
+
+    assert.deepEqual(await api.emit("before_agent_start", { userMessage: "Hey there!" }), [undefined]);
+    assert.deepEqual(await api.emit("before_agent_start", { userMessage: "ok thanks 👍" }), [undefined]);
+    assert.equal(h.server.requestsTo("/v1/memory/context").length, 0);
+    assert.ok(api.logged("debug", /Auto-recall skipped: greeting message/));
+    assert.ok(api.logged("debug", /Auto-recall skipped: acknowledgement message/));
+  });
+
+  it("builds the query from the recent turns", async () => {
+    h.server.seedMemory({ content: "Priya manages the Lisbon office", category: "project" });
+    const api = h.plugin({ recallQueryTurns: 2 });
+
+    const [result] = await api.emit(
+      "before_agent_start",
+      conversation("Tell me about Globex.", "Globex is a client.", "Who runs things in Lisbon?", "Priya is the person to ask.", "what about her?"),
+    );
+    const [request] = h.server.requestsTo("/v1/memory/context");
+    assert.equal(
+      request.body.query,
+      "what about her?\nPriya, Lisbon\nPriya is the person to ask. / Who runs things in Lisbon?",
+    );
+    assert.match((result as { prependContext: string }).prependContext, /Priya manages the Lisbon office/);
+    assert.ok(api.logged("debug", /expanded from prior turns: Priya, Lisbon/));
+
+    // Not only pronoun-heavy follow-ups: every message takes in the window
+    await api.emit("before_agent_start", conversation("We moved the standup.", "Noted.", "Which office hosts the offsite?"));
+    assert.equal(
+      h.server.requestsTo("/v1/memory/context")[1].body.query,
+      "Which office hosts the offsite?\nNoted. / We moved the standup.",
+    );
+  });
+
+  it("drops results below recallMinRelevance", async () => {
+    h.server.seedMemory({ content: "Staging runs Postgres 16", category: "context" });
+    h.server.seedMemory({ content: "Staging deploys happen on Fridays", category: "context" });
+
+    const structured = h.plugin({ recallFormat: "structured", recallMinRelevance: 0.6 });
+    const [result] = await structured.emit("before_agent_start", { userMessage: "staging postgres version" });
+    const text = (result as { prependContext: string }).prependContext;
+    assert.match(text, /Postgres 16/);
+    assert.doesNotMatch(text, /Fridays/);
+    assert.ok(structured.logged("debug", /dropped 1 memories below recallMinRelevance 0\.6/));
+
+    // Core entries are kept whatever their score
+    h.server.seedMemory({ content: "Sam's rule: Staging deploys happen on Fridays", category: "preference" });
+    const tiered = h.plugin({ recallMinRelevance: 0.6 });
+    const [tieredResult] = await tiered.emit("before_agent_start", { userMessage: "staging postgres version" });
+    const context = (tieredResult as { prependContext: string }).prependContext;
+    assert.match(context, /## Relevant\n- Staging runs Postgres 16\n/);
+    assert.doesNotMatch(context, /^- Staging deploys happen on Fridays$/m);
+    assert.match(context, /Sam's rule: Staging deploys happen on Fridays/);
+    assert.ok(tiered.logged("debug", /dropped 1 memories below recallMinRelevance 0\.6/));
+  });
+
+  it("gives up on recall that exceeds recallTimeoutMs", async () => {
+    h.server.inject({ path: "/v1/memory/context", latencyMs: 300 });
+    const api = h.plugin({ recallTimeoutMs: 50 });
+
+    const [result] = await api.emit("before_agent_start", { userMessage: "slow recall" });
+    assert.equal(result, undefined);
+    assert.ok(api.logged("warn", /timed out/));
+  });
+});
+
+describe("recall dedup", () => {
+  const ctx = { sessionKey: "s1" };
+  const recall = async (api: ReturnType<typeof h.plugin>, ...texts: string[]) => {
+    const [result] = await api.emit("before_agent_start", conversation(...texts), ctx);
+    return (result as { prependContext: string } | undefined)?.prependContext ?? "";
+  };
+
+  it("only injects memories that are new to the session", async () => {
+    h.server.seedMemory({ content: "User's name is Sam", category: "identity" });
+    const api = h.plugin();
+
+    assert.match(await recall(api, "What's the plan for today?"), /User's name is Sam/);
+    assert.equal(await recall(api, "What's the plan for today?", "Let me check.", "Anything else on it?"), "");
+    assert.ok(api.logged("debug", /skipped 1 memories already injected this session/));
+
+    h.server.seedMemory({ content: "Sam has a dentist appointment on Friday", category: "family" });
+    const text = await recall(api, "What's the plan for today?", "Let me check.", "Anything else on it?", "No.", "Dentist?");
+    assert.match(text, /dentist appointment/);
+    assert.doesNotMatch(text, /User's name is Sam/);
+  });
+
+  it("re-injects updated memories in structured format", async () => {
+    const memory = h.server.seedMemory({ content: "Sam prefers tabs", category: "preference" });
+    const api = h.plugin({ recallFormat: "structured" });
+
+    assert.match(await recall(api, "tabs or spaces?"), new RegExp(`id="${memory.id}"`));
+    assert.equal(await recall(api, "tabs or spaces?", "Tabs.", "tabs again?"), "");
+
+    await api.callTool("memory_update", { id: memory.id, content: "Sam prefers tabs, width 4" });
+    assert.match(await recall(api, "tabs or spaces?", "Tabs.", "tabs again?", "Yes.", "tabs width?"), /width 4/);
+  });
+
+  it("injects everything again after compaction or every N turns", async () => {
+    h.server.seedMemory({ content: "User's name is Sam", category: "identity" });
+    const api = h.plugin();
+    await recall(api, "What's the plan for today?");
+
+    await api.emit("after_compaction", {}, ctx);
+    assert.match(await recall(api, "Summary of the plan"), /User's name is Sam/);
+    // A shorter transcript than last turn also means it was compacted
+    assert.equal(await recall(api, "Summary of the plan", "Sure.", "Plan details"), "");
+    assert.match(await recall(api, "Plan details"), /User's name is Sam/);
+
+    const periodic = h.plugin({ recallReinjectEveryTurns: 2 });
+    const turns = [];
+    for (let i = 0; i < 3; i++) turns.push(await recall(periodic, "What's the plan for today?"));
+    assert.deepEqual(turns.map((t) => /Sam/.test(t)), [true, false, true]);
+  });
+
+  it("leaves sessionless recall alone", async () => {
+    h.server.seedMemory({ content: "User's name is Sam", category: "identity" });
+    const api = h.plugin();
+    for (let i = 0; i < 2; i++) {
+      const [result] = await api.emit("before_agent_start", { userMessage: "What's the plan for today?" });
+      assert.match((result as { prependContext: string }).prependContext, /User's name is Sam/);
+    }
+  });
+});
+
+describe("auto-capture (agent_end)", () => {
+  it("extracts new turns and only sends them once per session", async () => {
+    const api = h.plugin();
+    const event = conversation(
+      "By the way, Priya works at Globex and Priya lives in Lisbon.",
+      "Noted — Priya is at Globex in Lisbon.",
+    );
+
+    await api.emit("agent_end", event, { sessionKey: "s1" });
+    assert.deepEqual(
+      h.server.allEntities().map((e) => e.name).sort(),
+      ["Globex", "Lisbon", "Priya"],
+    );
+    assert.equal(h.server.allRelationships().length, 2);
+
+    // Same transcript again: nothing past the cursor, so no second extract
+    await api.emit("agent_end", event, { sessionKey: "s1" });
+    assert.equal(h.server.requestsTo("/v1/extract").length, 1);
+  });
+
+  it("re-aligns on the nearest copy of a repeated turn after compaction", async () => {
+    const api = h.plugin({ captureOverlapTurns: 0 });
+    await api.emit(
+      "agent_end",
+      conversation(
+        "Priya moved to the Lisbon office.", "ok",
+        "Omar now leads the Globex account.", "ok",
+        "Kim prefers green tea.", "ok",
+      ),
+      { sessionKey: "s1" },
+    );
+
+    // Compacted: an earlier "ok" survives too, and new turns follow the last one
+    await api.emit(
+      "agent_end",
+      conversation(
+        "Summary: Priya and Omar changed roles.", "ok",
+        "Kim prefers green tea.", "ok",
+        "Dana joined the Berlin team.", "thanks",
+      ),
+      { sessionKey: "s1" },
+    );
+    const extracts = h.server.requestsTo("/v1/extract");
+    assert.equal(extracts.length, 2);
+    assert.doesNotMatch(extracts[1].body.text, /Kim/);
+    assert.match(extracts[1].body.text, /Dana joined the Berlin team/);
+  });
+
+  it("keeps the chunks sent before a failure captured", async () => {
+    h.server.inject({ path: "/v1/extract", status: 400, after: 1, times: 1 });
+    const api = h.plugin({ captureChunkTokens: 20, captureOverlapTurns: 0 });
+    const event = conversation(
+      "Priya moved to the Lisbon office last spring.",
+      "Noted, Priya works from Lisbon now.",
+      "Omar now leads the Globex account for us.",
+      "Noted, Omar leads Globex.",
+    );
+
+    await api.emit("agent_end", event, { sessionKey: "s1" });
+    assert.ok(api.logged("warn", /Auto-capture failed on chunk 2\//));
+    const first = h.server.requestsTo("/v1/extract").map((r) => r.body.text);
+
+    await api.emit("agent_end", event, { sessionKey: "s1" });
+    const retried = h.server.requestsTo("/v1/extract").slice(first.length).map((r) => r.body.text);
+    assert.equal(retried[0], first[1]);
+    assert.ok(retried.every((text) => text !== first[0]));
+  });
+
+  it("queues extraction while the server is down and replays it later", async () => {
+    h.server.inject({ path: "/v1/extract", status: 503 });
+    const api = h.plugin();
+    await api.emit("agent_end", conversation("Remember that Omar uses Neovim for everything he writes."));
+    assert.equal(h.server.allMemories().length, 0);
+    assert.ok(api.logged("info", /Queued extract/));
+
+    h.server.clearFaults();
+    const { stdout } = await api.runCli(["maasv", "queue", "flush"]);
+    assert.match(stdout, /Sent: 1/);
+    assert.equal(h.server.allMemories().length, 1);
+  });
+});
+
+describe("wisdom hooks", () => {
+  it("logs tracked tool calls and records their outcome", async () => {
+    const api = h.plugin({ autoWisdom: true });
+    const ctx = { sessionKey: "s1" };
+    await api.emit("before_tool_call", { toolName: "shell", toolCallId: "t1", params: { cmd: "make test" } }, ctx);
+    await api.emit("before_tool_call", { toolName: "memory_search", toolCallId: "t2", params: {} }, ctx);
+    await waitFor(() => h.server.allWisdom().length === 1);
+    await api.emit("after_tool_call", { toolName: "shell", toolCallId: "t1", error: "exit code 2" }, ctx);
+
+    await waitFor(() => h.server.allWisdom()[0].outcome !== "pending");
+    const [entry] = h.server.allWisdom();
+    assert.equal(entry.action_type, "shell");
+    assert.equal(entry.outcome, "failed");
+    assert.equal(entry.outcome_details, "exit code 2");
+  });
+
+  it("reminds the next turn about entries without an outcome", async () => {
+    const api = h.plugin({ enableWisdom: true, autoRecall: false });
+    const ctx = { sessionKey: "s1" };
+    await api.callTool("memory_wisdom", { action: "log", action_type: "refactor", reasoning: "Split the parser module" }, ctx);
+
+    await api.emit("agent_end", { messages: [] }, ctx);
+    const [result] = await api.emit("before_agent_start", { userMessage: "next" }, ctx);
+    assert.match((result as { prependContext: string }).prependContext, /<pending_outcomes>[\s\S]*Split the parser/);
+    // Shown once per agent_end, not on every turn
+    assert.deepEqual(await api.emit("before_agent_start", { userMessage: "again" }, ctx), [undefined]);
+  });
+
+  it("keeps timed-out entries pending until their outcome is recorded", async () => {
+    const api = h.plugin({ enableWisdom: true, wisdomOutcomeTimeoutMs: 1, wisdomReminders: false });
+    const ctx = { sessionKey: "s1" };
+    await api.callTool("memory_wisdom", { action: "log", action_type: "refactor", reasoning: "Split the parser module" }, ctx);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    h.server.inject({ path: /\/outcome$/, status: 503, times: 1 });
+    await api.emit("agent_end", { messages: [] }, ctx);
+    assert.equal(h.server.allWisdom()[0].outcome, "pending");
+    assert.ok(api.logged("warn", /Failed to close wisdom entry .* \(will retry\)/));
+
+    await api.emit("agent_end", { messages: [] }, ctx);
+    assert.equal(h.server.allWisdom()[0].outcome, "unknown");
+    assert.ok(api.logged("info", /marked 1 wisdom entries "unknown"/));
+    // Closed for good: nothing left to retry
+    await api.emit("agent_end", { messages: [] }, ctx);
+    assert.equal(h.server.requestsTo("/v1/wisdom/").filter((r) => r.path.endsWith("/outcome")).length, 2);
+  });
+});
+
+async function waitFor(condition: () => boolean, timeoutMs = 1_000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for condition");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
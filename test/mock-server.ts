@@ -0,0 +1,827 @@
+/**
+ * In-process stand-in for maasv-server, for tests that exercise the plugin
+ * without Python, embeddings or LLM keys.
+ *
+ * Implements the /v1 routes MaasvClient calls with deterministic in-memory
+ * behavior: keyword search instead of vector retrieval, exact-content dedup,
+ * and rule-based extraction ("Alice works at Acme", "Bob lives in Berlin",
+ * "I prefer tabs"). IDs are sequential per kind (mem_1, ent_1, ...).
+ *
+ * Faults can be injected per route: added latency, 5xx (or any) status
+ * codes, and malformed JSON bodies.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { Entity, Memory, Relationship, WisdomEntry } from "../types.js";
+
+export interface Fault {
+  method?: string;
+  /** Path prefix (query string excluded) or pattern; omitted matches every route. */
+  path?: string | RegExp;
+  latencyMs?: number;
+  /** Respond with this status instead of handling the request. */
+  status?: number;
+  /** Respond 200 with a body that isn't valid JSON. */
+  malformed?: boolean;
+  /** How many matching requests to affect; unlimited by default. */
+  times?: number;
+  /** How many matching requests to let through first. */
+  after?: number;
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: IncomingMessage["headers"];
+  body: any;
+}
+
+interface StoredMemory extends Memory {
+  namespace: string | null;
+}
+
+interface StoredWisdom extends WisdomEntry {
+  action_data: Record<string, unknown> | null;
+  trigger: string | null;
+  context: string | null;
+}
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+type Handler = (req: RecordedRequest, params: string[]) => unknown;
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "do", "does", "for", "from", "has", "have",
+  "he", "her", "his", "how", "i", "in", "is", "it", "its", "me", "my", "of", "on", "or", "our",
+  "she", "that", "the", "their", "they", "this", "to", "was", "we", "what", "when", "where",
+  "which", "who", "why", "with", "you", "your",
+]);
+
+// Categories returned as the "core" tier of /v1/memory/context
+const CORE_CATEGORIES = ["identity", "family", "preference"];
+
+const NAME = "[A-Z][\\w'-]*(?: [A-Z][\\w'-]*)*";
+
+// Rule-based extraction: subject and object capture groups plus the triple they produce
+const EXTRACTION_RULES: Array<{
+  pattern: RegExp;
+  predicate: string;
+  subjectType: string;
+  objectType: string | null;
+}> = [
+  { pattern: new RegExp(`(${NAME}) works (?:at|for) (${NAME})`), predicate: "works_at", subjectType: "person", objectType: "organization" },
+  { pattern: new RegExp(`(${NAME}) lives in (${NAME})`), predicate: "lives_in", subjectType: "person", objectType: "place" },
+  { pattern: new RegExp(`(${NAME}) is married to (${NAME})`), predicate: "married_to", subjectType: "person", objectType: "person" },
+  { pattern: new RegExp(`(${NAME}) manages (${NAME})`), predicate: "manages", subjectType: "person", objectType: "project" },
+  { pattern: new RegExp(`(${NAME}) uses ([\\w.+#-]+)`), predicate: "uses", subjectType: "person", objectType: "technology" },
+  { pattern: /\b(I) (?:prefer|like|love) ([^.!?\n]+)/, predicate: "prefers", subjectType: "person", objectType: null },
+];
+
+export class MockMaasvServer {
+  /** Every request received, oldest first (faulted ones included). */
+  readonly requests: RecordedRequest[] = [];
+  /** Reported by /v1/health; set to "unhealthy" to simulate a degraded server. */
+  healthStatus: "healthy" | "unhealthy" = "healthy";
+  /** Clock for timestamps; tests may pin it. */
+  now: () => Date = () => new Date();
+
+  private server: Server | null = null;
+  private faults: Array<Fault & { remaining: number; passed: number }> = [];
+  private memories = new Map<string, StoredMemory>();
+  private entities = new Map<string, Entity>();
+  private relationships = new Map<string, Relationship>();
+  private wisdom = new Map<string, StoredWisdom>();
+  private counters = new Map<string, number>();
+  private routes: Array<{ method: string; pattern: RegExp; handler: Handler }> = [];
+
+  constructor() {
+    this.defineRoutes();
+  }
+
+  /** Listen on an ephemeral localhost port; resolves to the base URL. */
+  async start(): Promise<string> {
+    const server = createServer((req, res) => void this.handle(req, res));
+    this.server = server;
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  get url(): string {
+    if (!this.server) throw new Error("mock maasv-server is not running");
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  /** Forget all data, faults and recorded requests. */
+  reset(): void {
+    this.requests.length = 0;
+    this.faults = [];
+    this.memories.clear();
+    this.entities.clear();
+    this.relationships.clear();
+    this.wisdom.clear();
+    this.counters.clear();
+    this.healthStatus = "healthy";
+  }
+
+  inject(fault: Fault): void {
+    this.faults.push({ ...fault, remaining: fault.times ?? Infinity, passed: 0 });
+  }
+
+  clearFaults(): void {
+    this.faults = [];
+  }
+
+  /** Requests to a path prefix, optionally filtered by method. */
+  requestsTo(path: string, method?: string): RecordedRequest[] {
+    return this.requests.filter(
+      (r) => r.path.startsWith(path) && (!method || r.method === method),
+    );
+  }
+
+  // --- Seeding and inspection ---
+
+  seedMemory(fields: Partial<Memory> & { content: string; namespace?: string }): Memory {
+    return this.publicMemory(this.createMemory({ category: "fact", ...fields }));
+  }
+
+  seedEntity(name: string, entityType: string, aliases: string[] = []): Entity {
+    const entity = this.findOrCreateEntity(name, entityType, null);
+    for (const alias of aliases) this.addAlias(entity, alias);
+    return entity;
+  }
+
+  seedRelationship(fields: Partial<Relationship> & { subject_id: string; predicate: string }): Relationship {
+    return this.createRelationship(fields);
+  }
+
+  seedWisdom(fields: Partial<WisdomEntry> & { action_type: string; reasoning: string }): WisdomEntry {
+    const entry = this.createWisdom(fields);
+    Object.assign(entry, fields);
+    return entry;
+  }
+
+  allMemories(opts: { includeSuperseded?: boolean } = {}): Memory[] {
+    return [...this.memories.values()]
+      .filter((m) => opts.includeSuperseded || !m.superseded_by)
+      .map((m) => this.publicMemory(m));
+  }
+
+  allEntities(): Entity[] {
+    return [...this.entities.values()];
+  }
+
+  allRelationships(): Relationship[] {
+    return [...this.relationships.values()];
+  }
+
+  allWisdom(): WisdomEntry[] {
+    return [...this.wisdom.values()];
+  }
+
+  // --- Request handling ---
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const raw = await readBody(req);
+    let body: any;
+    try {
+      body = raw ? JSON.parse(raw) : undefined;
+    } catch {
+      return send(res, 400, { detail: "Invalid JSON body" });
+    }
+    const recorded: RecordedRequest = {
+      method: req.method ?? "GET",
+      path: url.pathname,
+      query: url.searchParams,
+      headers: req.headers,
+      body,
+    };
+    this.requests.push(recorded);
+
+    const fault = this.takeFault(recorded);
+    if (fault?.latencyMs) await sleep(fault.latencyMs);
+    if (res.destroyed) return;
+    if (fault?.malformed) {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end('{"results": [');
+      return;
+    }
+    if (fault?.status) return send(res, fault.status, { detail: "Injected fault" });
+
+    for (const route of this.routes) {
+      if (route.method !== recorded.method) continue;
+      const match = route.pattern.exec(recorded.path);
+      if (!match) continue;
+      try {
+        const params = match.slice(1).map((p) => decodeURIComponent(p));
+        return send(res, 200, route.handler(recorded, params));
+      } catch (err) {
+        if (err instanceof HttpError) return send(res, err.status, { detail: err.message });
+        return send(res, 500, { detail: (err as Error).message });
+      }
+    }
+    send(res, 404, { detail: `No route for ${recorded.method} ${recorded.path}` });
+  }
+
+  private takeFault(req: RecordedRequest): Fault | null {
+    const fault = this.faults.find(
+      (f) =>
+        f.remaining > 0 &&
+        (!f.method || f.method === req.method) &&
+        (f.path === undefined ||
+          (typeof f.path === "string" ? req.path.startsWith(f.path) : f.path.test(req.path))),
+    );
+    if (!fault) return null;
+    if (fault.passed < (fault.after ?? 0)) {
+      fault.passed += 1;
+      return null;
+    }
+    fault.remaining -= 1;
+    return fault;
+  }
+
+  private route(method: string, path: string, handler: Handler): void {
+    // ":id" segments become capture groups
+    const pattern = new RegExp(`^${path.replace(/:\w+/g, "([^/]+)")}$`);
+    this.routes.push({ method, pattern, handler });
+  }
+
+  private defineRoutes(): void {
+    // Fixed paths first so "/v1/memory/search" doesn't match "/v1/memory/:id"
+    this.route("GET", "/v1/health", () => ({ status: this.healthStatus }));
+    this.route("GET", "/v1/stats", () => this.stats());
+
+    this.route("POST", "/v1/memory/store", ({ body }) => this.store(body));
+    this.route("POST", "/v1/memory/search", ({ body }) => {
+      const results = this.search(body);
+      return { results, count: results.length };
+    });
+    this.route("POST", "/v1/memory/list", ({ body }) => this.listMemories(body));
+    this.route("POST", "/v1/memory/context", ({ body }) => ({ context: this.context(body) }));
+    this.route("POST", "/v1/memory/supersede", ({ body }) => this.supersede(body));
+    this.route("GET", "/v1/memory/:id/history", (_, [id]) => this.history(id));
+    this.route("GET", "/v1/memory/:id", (_, [id]) => this.publicMemory(this.memory(id)));
+    this.route("DELETE", "/v1/memory/:id", (_, [id]) => {
+      this.memory(id);
+      this.memories.delete(id);
+      return { deleted: true, memory_id: id };
+    });
+
+    this.route("POST", "/v1/extract", ({ body }) => this.extract(body));
+
+    this.route("POST", "/v1/graph/entities", ({ body }) => {
+      required(body, "name", "entity_type");
+      return this.findOrCreateEntity(body.name, body.entity_type, body.metadata ?? null);
+    });
+    this.route("POST", "/v1/graph/entities/search", ({ body }) => {
+      const results = this.searchEntities(body);
+      return { results, count: results.length };
+    });
+    this.route("POST", "/v1/graph/entities/list", ({ body }) =>
+      page(
+        this.allEntities().filter((e) => !body?.entity_type || e.entity_type === body.entity_type),
+        body,
+      ),
+    );
+    this.route("GET", "/v1/graph/entities/:id", ({ query }, [id]) =>
+      this.profile(id, query.get("include_ended") === "true"),
+    );
+    this.route("POST", "/v1/graph/entities/:id/rename", ({ body }, [id]) => {
+      required(body, "name");
+      const entity = this.entity(id);
+      const previous = entity.name;
+      entity.name = body.name;
+      entity.canonical_name = canonical(body.name);
+      entity.aliases = (entity.aliases ?? []).filter((a) => canonical(a) !== entity.canonical_name);
+      if (body.keep_alias !== false) this.addAlias(entity, previous);
+      return entity;
+    });
+    this.route("POST", "/v1/graph/entities/:id/aliases", ({ body }, [id]) => {
+      required(body, "alias");
+      const entity = this.entity(id);
+      this.addAlias(entity, body.alias);
+      return entity;
+    });
+    this.route("DELETE", "/v1/graph/entities/:id/aliases/:alias", (_, [id, alias]) => {
+      const entity = this.entity(id);
+      entity.aliases = (entity.aliases ?? []).filter((a) => canonical(a) !== canonical(alias));
+      return entity;
+    });
+    this.route("DELETE", "/v1/graph/entities/:id", (_, [id]) => {
+      this.entity(id);
+      this.entities.delete(id);
+      let removed = 0;
+      for (const rel of [...this.relationships.values()]) {
+        if (rel.subject_id === id || rel.object_id === id) {
+          this.relationships.delete(rel.id);
+          removed += 1;
+        }
+      }
+      return { deleted: true, entity_id: id, relationships_removed: removed };
+    });
+
+    this.route("POST", "/v1/graph/relationships", ({ body }) => {
+      required(body, "subject_id", "predicate");
+      this.entity(body.subject_id);
+      if (body.object_id) this.entity(body.object_id);
+      else if (!body.object_value) throw new HttpError(422, "object_id or object_value required");
+      return { relationship_id: this.createRelationship(body).id };
+    });
+    this.route("POST", "/v1/graph/relationships/list", ({ body }) => this.listRelationships(body));
+    this.route("POST", "/v1/graph/relationships/:id/end", ({ body }, [id]) => {
+      const rel = this.relationship(id);
+      rel.valid_to = body?.valid_to ?? this.now().toISOString();
+      return { relationship_id: id, valid_to: rel.valid_to };
+    });
+    this.route("DELETE", "/v1/graph/relationships/:id", (_, [id]) => {
+      this.relationship(id);
+      this.relationships.delete(id);
+      return { deleted: true, relationship_id: id };
+    });
+
+    this.route("POST", "/v1/wisdom/log", ({ body }) => {
+      required(body, "action_type", "reasoning");
+      return { wisdom_id: this.createWisdom(body).id };
+    });
+    this.route("POST", "/v1/wisdom/search", ({ body }) => {
+      const results = this.searchWisdom(body);
+      return { results, count: results.length };
+    });
+    this.route("POST", "/v1/wisdom/list", ({ body }) => this.listWisdom(body));
+    this.route("POST", "/v1/wisdom/:id/outcome", ({ body }, [id]) => {
+      required(body, "outcome");
+      const entry = this.wisdomEntry(id);
+      entry.outcome = body.outcome;
+      entry.outcome_details = body.details ?? null;
+      return { updated: true };
+    });
+    this.route("POST", "/v1/wisdom/:id/feedback", ({ body }, [id]) => {
+      required(body, "score");
+      const entry = this.wisdomEntry(id);
+      entry.feedback_score = body.score;
+      entry.feedback_notes = body.notes ?? null;
+      return { updated: true };
+    });
+  }
+
+  // --- Memory ---
+
+  private store(body: any): { memory_id: string; deduplicated?: boolean } {
+    required(body, "content", "category");
+    const namespace = body.metadata?.namespace ?? body.namespace ?? null;
+    // Naive dedup: identical normalized content in the same namespace
+    const key = normalize(body.content);
+    for (const m of this.memories.values()) {
+      if (!m.superseded_by && m.namespace === namespace && normalize(m.content) === key) {
+        return { memory_id: m.id, deduplicated: true };
+      }
+    }
+    return { memory_id: this.createMemory({ ...body, namespace }).id };
+  }
+
+  private createMemory(fields: Partial<StoredMemory> & { content: string }): StoredMemory {
+    const at = this.now().toISOString();
+    const memory: StoredMemory = {
+      id: fields.id ?? this.nextId("mem"),
+      content: fields.content,
+      category: fields.category ?? "fact",
+      subject: fields.subject ?? null,
+      source: fields.source ?? "manual",
+      confidence: fields.confidence ?? 1,
+      importance: fields.importance ?? null,
+      access_count: fields.access_count ?? 0,
+      created_at: fields.created_at ?? at,
+      updated_at: fields.updated_at ?? fields.created_at ?? at,
+      metadata: fields.metadata ?? null,
+      superseded_by: null,
+      namespace: fields.namespace ?? (fields.metadata?.namespace as string | undefined) ?? null,
+    };
+    this.memories.set(memory.id, memory);
+    return memory;
+  }
+
+  private search(body: any): Memory[] {
+    required(body, "query");
+    const terms = tokenize(body.query);
+    return this.visibleMemories(body)
+      .filter((m) => (!body.category || m.category === body.category) && (!body.subject || m.subject === body.subject))
+      .map((m) => ({ m, score: score(terms, `${m.subject ?? ""} ${m.content}`) }))
+      .filter((r) => r.score > 0)
+      .sort((a, b) => b.score - a.score || a.m.id.localeCompare(b.m.id))
+      .slice(0, body.limit ?? 10)
+      .map(({ m, score }) => {
+        m.access_count += 1;
+        return { ...this.publicMemory(m), relevance: Number(score.toFixed(3)) };
+      });
+  }
+
+  private listMemories(body: any): { results: Memory[]; count: number; total: number } {
+    const r = body ?? {};
+    const inRange = (value: string, after?: string, before?: string) =>
+      (!after || value >= after) && (!before || value <= before);
+    const matches = this.visibleMemories(r).filter(
+      (m) =>
+        (!r.category || m.category === r.category) &&
+        (!r.subject || m.subject === r.subject) &&
+        (!r.source || m.source === r.source) &&
+        (r.min_confidence === undefined || m.confidence >= r.min_confidence) &&
+        (r.max_confidence === undefined || m.confidence <= r.max_confidence) &&
+        inRange(m.created_at, r.created_after, r.created_before) &&
+        inRange(m.updated_at, r.updated_after, r.updated_before),
+    );
+    const sort = r.sort ?? "recency";
+    matches.sort((a, b) =>
+      sort === "importance"
+        ? (b.importance ?? 0) - (a.importance ?? 0)
+        : sort === "access_count"
+          ? b.access_count - a.access_count
+          : b.created_at.localeCompare(a.created_at) || b.id.localeCompare(a.id),
+    );
+    return page(matches.map((m) => this.publicMemory(m)), r);
+  }
+
+  private context(body: any): string {
+    const coreLimit = body?.core_limit ?? 5;
+    const core = this.visibleMemories(body ?? {})
+      .filter((m) => CORE_CATEGORIES.includes(m.category))
+      .slice(0, coreLimit);
+    const seen = new Set(core.map((m) => m.id));
+    const relevant = body?.query
+      ? this.search({ ...body, limit: (body.relevant_limit ?? 3) + seen.size })
+          .filter((m) => !seen.has(m.id))
+          .slice(0, body.relevant_limit ?? 3)
+      : [];
+    const sections: string[] = [];
+    if (core.length) sections.push(["## Core", ...core.map((m) => `- [${m.category}] ${m.content}`)].join("\n"));
+    if (relevant.length) sections.push(["## Relevant", ...relevant.map((m) => `- ${m.content}`)].join("\n"));
+    return sections.join("\n\n");
+  }
+
+  private supersede(body: any): { memory_id: string } {
+    required(body, "old_id", "new_content");
+    const old = this.memory(body.old_id);
+    if (old.superseded_by) throw new HttpError(409, `Memory ${old.id} is already superseded`);
+    const next = this.createMemory({ ...old, id: undefined, content: body.new_content, access_count: 0, created_at: undefined, updated_at: undefined });
+    old.superseded_by = next.id;
+    old.updated_at = next.created_at;
+    return { memory_id: next.id };
+  }
+
+  private history(id: string): { memory_id: string; versions: Memory[] } {
+    let first = this.memory(id);
+    for (let prev = this.predecessor(first); prev; prev = this.predecessor(prev)) first = prev;
+    const versions: Memory[] = [];
+    for (let m: StoredMemory | undefined = first; m; m = m.superseded_by ? this.memories.get(m.superseded_by) : undefined) {
+      versions.push(this.publicMemory(m));
+    }
+    return { memory_id: id, versions };
+  }
+
+  private predecessor(m: StoredMemory): StoredMemory | undefined {
+    return [...this.memories.values()].find((p) => p.superseded_by === m.id);
+  }
+
+  private visibleMemories(body: any): StoredMemory[] {
+    const namespaces: string[] | undefined = body?.namespaces;
+    return [...this.memories.values()].filter(
+      (m) => !m.superseded_by && (!namespaces?.length || (m.namespace !== null && namespaces.includes(m.namespace))),
+    );
+  }
+
+  private memory(id: string): StoredMemory {
+    const m = this.memories.get(id);
+    if (!m) throw new HttpError(404, `Memory ${id} not found`);
+    return m;
+  }
+
+  private publicMemory(m: StoredMemory): Memory {
+    const { namespace: _namespace, ...memory } = m;
+    return { ...memory };
+  }
+
+  // --- Extraction ---
+
+  private extract(body: any): unknown {
+    required(body, "text");
+    const entities = new Map<string, { name: string; type: string }>();
+    const relationships: Array<{ subject: string; predicate: string; object: string }> = [];
+    let stored = 0;
+
+    for (const sentence of splitSentences(body.text)) {
+      for (const rule of EXTRACTION_RULES) {
+        const match = rule.pattern.exec(sentence);
+        if (!match) continue;
+        const subjectName = match[1] === "I" ? "User" : match[1];
+        const objectName = match[2].trim();
+        const subject = this.findOrCreateEntity(subjectName, rule.subjectType, null);
+        entities.set(subject.id, { name: subject.name, type: subject.entity_type });
+        if (rule.objectType) {
+          const object = this.findOrCreateEntity(objectName, rule.objectType, null);
+          entities.set(object.id, { name: object.name, type: object.entity_type });
+          this.createRelationship({ subject_id: subject.id, predicate: rule.predicate, object_id: object.id });
+        } else {
+          this.createRelationship({ subject_id: subject.id, predicate: rule.predicate, object_value: objectName });
+        }
+        relationships.push({ subject: subject.name, predicate: rule.predicate, object: objectName });
+
+        const result = this.store({
+          content: sentence,
+          category: rule.predicate === "prefers" ? "preference" : "fact",
+          subject: subject.name,
+          source: "extraction",
+          metadata: body.namespace ? { namespace: body.namespace, topic: body.topic } : { topic: body.topic },
+        });
+        if (!result.deduplicated) stored += 1;
+      }
+    }
+    return {
+      extraction: {
+        status: relationships.length ? "extracted" : "nothing_found",
+        entities: [...entities.values()],
+        relationships,
+      },
+      storage: { memories_stored: stored, entities: entities.size, relationships: relationships.length },
+    };
+  }
+
+  // --- Graph ---
+
+  private findOrCreateEntity(name: string, entityType: string, metadata: Record<string, unknown> | null): Entity {
+    const key = canonical(name);
+    const existing = [...this.entities.values()].find(
+      (e) =>
+        (e.canonical_name === key && e.entity_type === entityType) ||
+        (e.aliases ?? []).some((a) => canonical(a) === key),
+    );
+    if (existing) {
+      existing.access_count += 1;
+      return existing;
+    }
+    const entity: Entity = {
+      id: this.nextId("ent"),
+      name,
+      entity_type: entityType,
+      canonical_name: key,
+      metadata,
+      access_count: 0,
+      aliases: [],
+    };
+    this.entities.set(entity.id, entity);
+    return entity;
+  }
+
+  private searchEntities(body: any): Entity[] {
+    required(body, "query");
+    const q = canonical(body.query);
+    return this.allEntities()
+      .filter((e) => !body.entity_type || e.entity_type === body.entity_type)
+      .filter((e) => [e.canonical_name, ...(e.aliases ?? []).map(canonical)].some((n) => n.includes(q) || q.includes(n)))
+      .slice(0, body.limit ?? 10);
+  }
+
+  private profile(id: string, includeEnded: boolean): unknown {
+    const entity = this.entity(id);
+    const now = this.now().getTime();
+    const relationships: Record<string, Relationship[]> = {};
+    const related = new Map<string, Entity>();
+    for (const rel of this.relationships.values()) {
+      if (rel.subject_id !== id && rel.object_id !== id) continue;
+      if (!includeEnded && rel.valid_to && Date.parse(rel.valid_to) <= now) continue;
+      (relationships[rel.predicate] ??= []).push(this.named(rel));
+      const other = rel.subject_id === id ? rel.object_id : rel.subject_id;
+      const otherEntity = other ? this.entities.get(other) : undefined;
+      if (otherEntity && other !== id) related.set(otherEntity.id, otherEntity);
+    }
+    return { entity, relationships, related_entities: [...related.values()] };
+  }
+
+  private addAlias(entity: Entity, alias: string): void {
+    const aliases = entity.aliases ?? [];
+    if (canonical(alias) !== entity.canonical_name && !aliases.some((a) => canonical(a) === canonical(alias))) {
+      aliases.push(alias);
+    }
+    entity.aliases = aliases;
+  }
+
+  private createRelationship(fields: any): Relationship {
+    const rel: Relationship = {
+      id: this.nextId("rel"),
+      subject_id: fields.subject_id,
+      predicate: fields.predicate,
+      object_id: fields.object_id ?? null,
+      object_value: fields.object_id ? null : (fields.object_value ?? null),
+      valid_from: fields.valid_from ?? this.now().toISOString(),
+      valid_to: fields.valid_to ?? null,
+      confidence: fields.confidence ?? 1,
+    };
+    this.relationships.set(rel.id, rel);
+    return rel;
+  }
+
+  private listRelationships(body: any): { results: Relationship[]; count: number; total: number } {
+    const r = body ?? {};
+    const now = this.now().getTime();
+    const matches = this.allRelationships().filter(
+      (rel) =>
+        (!r.subject_id || rel.subject_id === r.subject_id) &&
+        (!r.predicate || rel.predicate === r.predicate) &&
+        (r.include_ended || !rel.valid_to || Date.parse(rel.valid_to) > now) &&
+        (!r.valid_from_after || rel.valid_from >= r.valid_from_after) &&
+        (!r.valid_from_before || rel.valid_from <= r.valid_from_before),
+    );
+    return page(matches.map((rel) => this.named(rel)), r);
+  }
+
+  private named(rel: Relationship): Relationship {
+    return {
+      ...rel,
+      subject_name: this.entities.get(rel.subject_id)?.name,
+      object_name: rel.object_id ? this.entities.get(rel.object_id)?.name : undefined,
+    };
+  }
+
+  private entity(id: string): Entity {
+    const e = this.entities.get(id);
+    if (!e) throw new HttpError(404, `Entity ${id} not found`);
+    return e;
+  }
+
+  private relationship(id: string): Relationship {
+    const rel = this.relationships.get(id);
+    if (!rel) throw new HttpError(404, `Relationship ${id} not found`);
+    return rel;
+  }
+
+  // --- Wisdom ---
+
+  private createWisdom(fields: any): StoredWisdom {
+    const entry: StoredWisdom = {
+      id: this.nextId("wis"),
+      action_type: fields.action_type,
+      reasoning: fields.reasoning,
+      outcome: "pending",
+      outcome_details: null,
+      feedback_score: null,
+      feedback_notes: null,
+      timestamp: fields.timestamp ?? this.now().toISOString(),
+      tags: fields.tags ?? null,
+      action_data: fields.action_data ?? null,
+      trigger: fields.trigger ?? null,
+      context: fields.context ?? null,
+    };
+    this.wisdom.set(entry.id, entry);
+    return entry;
+  }
+
+  private searchWisdom(body: any): WisdomEntry[] {
+    required(body, "query");
+    const terms = tokenize(body.query);
+    return this.allWisdom()
+      .map((w) => ({ w, score: score(terms, `${w.action_type.replace(/_/g, " ")} ${w.reasoning}`) }))
+      .filter((r) => r.score > 0)
+      .sort((a, b) => b.score - a.score || a.w.id.localeCompare(b.w.id))
+      .slice(0, body.limit ?? 10)
+      .map((r) => r.w);
+  }
+
+  private listWisdom(body: any): { results: WisdomEntry[]; count: number; total: number } {
+    const r = body ?? {};
+    const matches = this.allWisdom()
+      .filter(
+        (w) =>
+          (!r.action_type || w.action_type === r.action_type) &&
+          (!r.since || w.timestamp >= r.since) &&
+          (!r.until || w.timestamp <= r.until),
+      )
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    return page(matches, r);
+  }
+
+  private wisdomEntry(id: string): StoredWisdom {
+    const w = this.wisdom.get(id);
+    if (!w) throw new HttpError(404, `Wisdom entry ${id} not found`);
+    return w;
+  }
+
+  // --- Stats ---
+
+  private stats(): unknown {
+    const memories = [...this.memories.values()];
+    const active = memories.filter((m) => !m.superseded_by);
+    const now = this.now().getTime();
+    const wisdom = this.allWisdom();
+    return {
+      memories: {
+        total_active: active.length,
+        total_superseded: memories.length - active.length,
+        by_category: countBy(active, (m) => m.category),
+      },
+      entities: {
+        total: this.entities.size,
+        by_type: countBy(this.allEntities(), (e) => e.entity_type),
+      },
+      relationships: {
+        total_active: this.allRelationships().filter((r) => !r.valid_to || Date.parse(r.valid_to) > now).length,
+      },
+      retrieval_latency_ms: null,
+      wisdom: wisdom.length ? { total: wisdom.length, by_outcome: countBy(wisdom, (w) => w.outcome) } : null,
+    };
+  }
+
+  private nextId(kind: string): string {
+    const n = (this.counters.get(kind) ?? 0) + 1;
+    this.counters.set(kind, n);
+    return `${kind}_${n}`;
+  }
+}
+
+// --- Helpers ---
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+}
+
+function send(res: ServerResponse, status: number, body: unknown): void {
+  if (res.destroyed) return;
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function required(body: any, ...fields: string[]): void {
+  for (const field of fields) {
+    if (body?.[field] === undefined || body[field] === null || body[field] === "") {
+      throw new HttpError(422, `Field '${field}' is required`);
+    }
+  }
+}
+
+function page<T>(items: T[], req: { limit?: number; offset?: number } | undefined): {
+  results: T[];
+  count: number;
+  total: number;
+} {
+  const offset = req?.offset ?? 0;
+  const results = items.slice(offset, offset + (req?.limit ?? 50));
+  return { results, count: results.length, total: items.length };
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+    (t) => t.length > 1 && !STOPWORDS.has(t),
+  );
+}
+
+/** Fraction of query terms present in the text. */
+function score(terms: string[], text: string): number {
+  if (terms.length === 0) return 0;
+  const words = new Set(tokenize(text));
+  return terms.filter((t) => words.has(t)).length / terms.length;
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
+
+function canonical(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((s) => s.replace(/^(user|assistant):\s*/i, "").trim())
+    .filter(Boolean);
+}
+
+function countBy<T>(items: T[], key: (item: T) => string): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const item of items) counts[key(item)] = (counts[key(item)] ?? 0) + 1;
+  return counts;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
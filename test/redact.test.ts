@@ -0,0 +1,36 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ALL_DETECTORS, Redactor } from "../redact.js";
+
+const redactor = new Redactor({ enabled: true, mode: "mask", detectors: ALL_DETECTORS, rules: [] });
+const redact = (text: string) => redactor.redact(text).text;
+
+describe("Redactor", () => {
+  it("redacts labelled passwords", () => {
+    assert.equal(redact("password: hunter2-staging"), "password: [REDACTED:password]");
+    assert.equal(redact("The wifi password is 'correct horse'"), "The wifi password is 'correct horse'");
+    assert.equal(redact("The wifi password is 'tr0ub4dor'"), "The wifi password is '[REDACTED:password]'");
+    assert.equal(redact("my api_key is abc123xyz789"), "my api_key is [REDACTED:password]");
+  });
+
+  it("leaves prose that mentions secrets alone", () => {
+    for (const text of [
+      "The secret is that she practices every day.",
+      "The password is on the fridge.",
+      "Her secret is patience, not talent.",
+    ]) {
+      assert.equal(redact(text), text);
+    }
+  });
+
+  it("redacts phone numbers but not dates and times", () => {
+    assert.equal(redact("Call me at +1 (415) 555-0123."), "Call me at [REDACTED:phone].");
+    for (const text of [
+      "meeting at 2024-01-15 10:30",
+      "deployed 2024-01-15T10:30:00Z",
+      "window is 10:30-11:45 on 2024-3-5",
+    ]) {
+      assert.equal(redact(text), text);
+    }
+  });
+});
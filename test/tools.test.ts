@@ -0,0 +1,137 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { useHarness } from "./helpers.js";
+
+const h = useHarness();
+
+describe("tool registration", () => {
+  it("registers core tools always and graph / wisdom tools when enabled", () => {
+    const core = ["memory_search", "memory_store", "memory_forget", "memory_update", "memory_history", "memory_get", "memory_list"];
+    assert.deepEqual([...h.plugin({ enableGraph: false }).tools.keys()], core);
+
+    const api = h.plugin({ enableGraph: true, enableWisdom: true });
+    assert.equal(api.tools.get("memory_graph")?.opts.optional, true);
+    assert.equal(api.tools.get("memory_wisdom")?.opts.optional, true);
+  });
+});
+
+describe("memory tools", () => {
+  it("stores, searches, updates and forgets a memory", async () => {
+    const api = h.plugin();
+    const stored = await api.callTool("memory_store", { content: "Dana's birthday is March 3rd", category: "family", subject: "Dana" });
+    const id = /Stored memory: (\S+)/.exec(stored)?.[1];
+    assert.ok(id, stored);
+
+    assert.match(await api.callTool("memory_search", { query: "Dana birthday" }), /\[Dana\] Dana's birthday is March 3rd/);
+
+    const updated = await api.callTool("memory_update", { id, content: "Dana's birthday is March 4th" });
+    const newId = /→ (\S+)/.exec(updated)?.[1];
+    assert.ok(newId, updated);
+    assert.match(await api.callTool("memory_history", { id: newId }), /March 3rd[\s\S]*March 4th/);
+
+    assert.match(await api.callTool("memory_forget", { id: newId }), /Deleted memory/);
+    assert.equal(await api.callTool("memory_search", { query: "Dana birthday" }), "No memories found.");
+  });
+
+  it("redacts secrets before storing", async () => {
+    const api = h.plugin();
+    const text = await api.callTool("memory_store", {
+      content: "Staging password: hunter2-staging-pw",
+      category: "project",
+    });
+    assert.match(text, /redacted \d+ item/);
+    assert.ok(api.logged("info", /Redacted \d+ item\(s\) before memory_store \(password: 1\)/));
+    const [memory] = h.server.allMemories();
+    assert.doesNotMatch(memory.content, /hunter2/);
+  });
+
+  it("redacts secrets in memory_update and logs counts only", async () => {
+    const memory = h.server.seedMemory({ content: "Deploy token lives in 1Password", category: "project" });
+    const api = h.plugin();
+    const token = "ghp_" + "a1B2c3D4e5F6g7H8i9J0k1L2m3N4o5P6q7R8";
+    const text = await api.callTool("memory_update", { id: memory.id, content: `Deploy token is ${token}` });
+    assert.match(text, /redacted 1 item\(s\): api_key: 1/);
+    assert.ok(h.server.allMemories().every((m) => !m.content.includes(token)));
+    assert.ok(api.logged("info", /Redacted 1 item\(s\) before memory_update \(api_key: 1\)/));
+    assert.ok(api.logs.every((l) => !l.message.includes(token)));
+
+    await api.runCli(["maasv", "update", memory.id, `token=${token}`]);
+    assert.ok(h.server.allMemories().every((m) => !m.content.includes(token)));
+  });
+
+  it("queues memory_store while the server returns 5xx", async () => {
+    h.server.inject({ path: "/v1/memory/store", status: 503 });
+    const api = h.plugin();
+    assert.match(
+      await api.callTool("memory_store", { content: "Remember the milk", category: "context" }),
+      /queued memory for replay/,
+    );
+    assert.equal(h.server.allMemories().length, 0);
+
+    // A garbled 2xx answer means the write most likely landed; replaying it would duplicate it
+    h.server.clearFaults();
+    h.server.inject({ path: "/v1/memory/store", malformed: true, times: 1 });
+    const { stdout, stderr } = await api.runCli(["maasv", "queue", "flush"]);
+    assert.match(stdout, /Sent: 0 {2}Remaining: 0/);
+    assert.match(stderr, /Rejected .*malformed JSON \(200\)/);
+    assert.equal(h.server.requestsTo("/v1/memory/store").length, 2);
+  });
+
+  it("scopes tool clients to the agent's namespace", async () => {
+    const api = h.plugin({ namespaceFrom: "agent" });
+    await api.callTool("memory_store", { content: "Prefers short answers", category: "preference" }, { agentId: "writer" });
+    assert.equal(h.server.requestsTo("/v1/memory/store")[0].headers["x-maasv-namespace"], "writer");
+  });
+});
+
+describe("memory_graph", () => {
+  it("answers profile and path queries over extracted entities", async () => {
+    const api = h.plugin();
+    const client = h.client();
+    await client.extract("Alice works at Acme. Bob works at Acme. Bob lives in Berlin.");
+    const [alice] = (await client.searchEntities("Alice")).results;
+    const [berlin] = (await client.searchEntities("Berlin")).results;
+
+    assert.match(await api.callTool("memory_graph", { action: "profile", entity_id: alice.id }), /works_at: Acme/);
+    const path = await api.callTool("memory_graph", { action: "path", entity_id: alice.id, target_id: berlin.id });
+    assert.match(path, /Shortest connection: 3 hops/);
+  });
+
+  it("merges duplicates and can undo the merge", async () => {
+    const api = h.plugin();
+    const bob = h.server.seedEntity("Bob Smith", "person");
+    const dup = h.server.seedEntity("Bob", "person");
+    const acme = h.server.seedEntity("Acme", "organization");
+    h.server.seedRelationship({ subject_id: dup.id, predicate: "works_at", object_id: acme.id });
+
+    const merged = await api.callTool("memory_graph", { action: "merge", entity_id: dup.id, target_id: bob.id });
+    const mergeId = /merge (m_\w+)/.exec(merged)?.[1];
+    assert.ok(mergeId, merged);
+    assert.deepEqual(h.server.allEntities().find((e) => e.id === bob.id)?.aliases, ["Bob"]);
+    assert.ok(h.server.allRelationships().every((r) => r.subject_id === bob.id));
+
+    const { stdout } = await api.runCli(["maasv", "graph", "unmerge", mergeId]);
+    assert.match(stdout, /Restored Bob/);
+    assert.equal(h.server.allEntities().length, 3);
+  });
+});
+
+describe("memory_wisdom", () => {
+  it("logs reasoning, tracks it as pending and resolves it on outcome", async () => {
+    const api = h.plugin({ enableWisdom: true });
+    const ctx = { sessionKey: "s1" };
+    const logged = await api.callTool(
+      "memory_wisdom",
+      { action: "log", action_type: "deploy", reasoning: "Deploying on Friday because the fix is urgent", tags: ["ops"] },
+      ctx,
+    );
+    const id = /Logged reasoning: (\S+)\./.exec(logged)?.[1];
+    assert.ok(id, logged);
+    assert.deepEqual(h.server.allWisdom()[0].tags, ["ops"]);
+    assert.match(await api.callTool("memory_wisdom", { action: "pending" }, ctx), new RegExp(id));
+
+    await api.callTool("memory_wisdom", { action: "outcome", wisdom_id: id, outcome: "success" }, ctx);
+    assert.equal(h.server.allWisdom()[0].outcome, "success");
+    assert.match(await api.callTool("memory_wisdom", { action: "pending" }, ctx), /No wisdom entries/);
+  });
+});
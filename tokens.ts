@@ -0,0 +1,68 @@
+/**
+ * Token counting for recall budgets.
+ *
+ * The bundled "bpe" counter mimics how BPE tokenizers split text: it
+ * pre-tokenizes into words, number groups, punctuation runs and whitespace
+ * the way cl100k-style tokenizers do, then estimates tokens per piece by
+ * script. It is much closer than chars/4 for code and non-Latin text without
+ * shipping a vocabulary. "heuristic" is the plain chars/4 fallback.
+ */
+
+export interface TokenCounter {
+  readonly name: string;
+  count(text: string): number;
+}
+
+export type TokenCounterKind = "bpe" | "heuristic";
+
+// Same shape as the cl100k pre-tokenizer: contractions, words with a leading
+// space, digit groups of up to three, punctuation runs, whitespace runs.
+const PRETOKENIZE =
+  /'(?:[sdmt]|ll|ve|re)| ?\p{L}+| ?\p{N}{1,3}| ?[^\s\p{L}\p{N}]+|\s+/gu;
+
+// Scripts that BPE vocabularies trained mostly on English split into roughly
+// one token per character.
+const DENSE_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}]/u;
+const LATIN = /^[\p{Script=Latin}]+$/u;
+
+export const heuristicCounter: TokenCounter = {
+  name: "heuristic",
+  count(text: string): number {
+    return Math.ceil(text.length / 4);
+  },
+};
+
+export const bpeCounter: TokenCounter = {
+  name: "bpe",
+  count(text: string): number {
+    let tokens = 0;
+    for (const [piece] of text.matchAll(PRETOKENIZE)) {
+      tokens += estimatePiece(piece);
+    }
+    return tokens;
+  },
+};
+
+export function createTokenCounter(kind: TokenCounterKind = "bpe"): TokenCounter {
+  return kind === "heuristic" ? heuristicCounter : bpeCounter;
+}
+
+function estimatePiece(piece: string): number {
+  const word = piece.trimStart();
+  if (word.length === 0) return 1; // whitespace run
+
+  const first = word.codePointAt(0)!;
+  const isLetter = /\p{L}/u.test(String.fromCodePoint(first));
+  if (!isLetter) {
+    // Digit groups are single tokens; punctuation merges in pairs at best
+    return /^\p{N}+$/u.test(word) ? 1 : Math.ceil(word.length / 2);
+  }
+
+  if (DENSE_SCRIPT.test(word)) return [...word].length;
+  if (!LATIN.test(word)) {
+    // Cyrillic, Greek, Arabic, Devanagari, ...: short merges only
+    return Math.ceil([...word].length / 2);
+  }
+  // Common English words are one token; long or rare ones split into ~5-char pieces
+  return word.length <= 6 ? 1 : Math.ceil(word.length / 5);
+}
@@ -0,0 +1,57 @@
+/**
+ * memory_get tool — show the full record for one memory.
+ */
+
+import { Type } from "@sinclair/typebox";
+import type { MaasvClient } from "../client.js";
+import { FALLBACK_NOTE } from "../fallback.js";
+import type { Memory } from "../types.js";
+
+export function createMemoryGet(client: MaasvClient) {
+  return {
+    name: "memory_get",
+    description:
+      "Get the full record for a memory by ID — content, category, subject, source, confidence, importance, access count, timestamps and metadata.",
+    parameters: Type.Object({
+      id: Type.String({ description: "Memory ID (e.g. mem_abc123def456)" }),
+    }),
+    async execute(_id: string, params: { id: string }) {
+      try {
+        const memory = await client.getMemory(params.id);
+        const note = memory.fallback ? `${FALLBACK_NOTE}\n` : "";
+        return {
+          content: [{ type: "text" as const, text: `${note}${formatMemoryRecord(memory)}` }],
+        };
+      } catch (err) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to get memory ${params.id}: ${(err as Error).message}`,
+            },
+          ],
+        };
+      }
+    },
+  };
+}
+
+export function formatMemoryRecord(m: Memory): string {
+  const lines = [
+    `id: ${m.id}`,
+    `content: ${m.content}`,
+    `category: ${m.category}`,
+    `subject: ${m.subject ?? "-"}`,
+    `source: ${m.source}`,
+    `confidence: ${m.confidence}`,
+    `importance: ${m.importance ?? "-"}`,
+    `access_count: ${m.access_count}`,
+    `created_at: ${m.created_at}`,
+    `updated_at: ${m.updated_at}`,
+  ];
+  if (m.superseded_by) lines.push(`superseded_by: ${m.superseded_by}`);
+  if (m.metadata && Object.keys(m.metadata).length > 0) {
+    lines.push(`metadata: ${JSON.stringify(m.metadata)}`);
+  }
+  return lines.join("\n");
+}
@@ -1,35 +1,109 @@
 /**
  * memory_graph tool — query and build the knowledge graph.
  *
- * Exposes entity search, entity profiles (with relationships),
- * and relationship creation. No other OpenClaw memory plugin has this.
+ * Exposes entity search, entity profiles (with relationships), multi-hop
+ * traversal (neighbors, shortest paths, induced subgraphs), relationship
+ * timelines and point-in-time views, relationship creation and ending, and
+ * entity cleanup (duplicates, merge, alias, rename, delete). No other
+ * OpenClaw memory plugin has this.
  */
 
 import { Type } from "@sinclair/typebox";
-import type { MaasvClient } from "../client.js";
+import { isUnavailableError, type MaasvClient } from "../client.js";
+import {
+  executeMerge,
+  findDuplicateCandidates,
+  formatCandidates,
+  formatMergePlan,
+  planMerge,
+  type MergeLog,
+} from "../entities.js";
+import { FALLBACK_NOTE } from "../fallback.js";
+import {
+  DEFAULT_DEPTH,
+  GraphWalker,
+  MAX_DEPTH,
+  formatNeighbors,
+  formatPaths,
+  formatSubgraph,
+  formatTimeline,
+  formatValidity,
+  parseDate,
+  type TraversalFilters,
+} from "../graph.js";
+import type { WriteQueue } from "../outbox.js";
+import type { RelationshipRequest } from "../types.js";
 
-export function createMemoryGraph(client: MaasvClient) {
+export function createMemoryGraph(
+  client: MaasvClient,
+  merges: MergeLog,
+  queue?: WriteQueue,
+) {
   return {
     name: "memory_graph",
     description:
-      "Query the knowledge graph — search entities (people, places, projects, technologies), view entity profiles with all relationships, or create new relationships. The knowledge graph connects facts into a structured web of entities and relationships with temporal versioning.",
+      "Query the knowledge graph — search entities (people, places, projects, technologies), view entity profiles with all relationships, explore multi-hop neighbors, find how two entities are connected, map the relationships among a set of entities, see how an entity's relationships changed over time (or the graph as of a past date), create and end relationships, or clean up duplicate entities (find candidates, merge, alias, rename, delete). Ending a relationship keeps its history; merges are reversible. The knowledge graph connects facts into a structured web of entities and relationships with temporal versioning.",
     parameters: Type.Object({
       action: Type.Union(
         [
           Type.Literal("search"),
           Type.Literal("profile"),
+          Type.Literal("neighbors"),
+          Type.Literal("path"),
+          Type.Literal("subgraph"),
+          Type.Literal("timeline"),
           Type.Literal("add_relationship"),
+          Type.Literal("end_relationship"),
+          Type.Literal("duplicates"),
+          Type.Literal("merge"),
+          Type.Literal("alias"),
+          Type.Literal("rename"),
+          Type.Literal("delete_entity"),
         ],
         {
           description:
-            "Action: 'search' entities by name, 'profile' to get full entity details, 'add_relationship' to connect entities",
+            "Action: 'search' entities by name, 'profile' to get full entity details, 'neighbors' to walk outward from an entity, 'path' to find shortest connections between two entities, 'subgraph' to show relationships among a set of entities, 'timeline' to list an entity's relationship changes, 'add_relationship' to connect entities, 'end_relationship' to mark a relationship as no longer true, 'duplicates' to list likely duplicate entities, 'merge' entity_id into target_id, 'alias' to add another name for an entity, 'rename' an entity, 'delete_entity' to remove an entity and its relationships",
         },
       ),
       query: Type.Optional(
         Type.String({ description: "Search query (for 'search' action)" }),
       ),
       entity_id: Type.Optional(
-        Type.String({ description: "Entity ID (for 'profile' action)" }),
+        Type.String({
+          description:
+            "Entity ID (for 'profile', 'neighbors', 'path', 'timeline', 'alias', 'rename', 'delete_entity'; the entity merged away for 'merge')",
+        }),
+      ),
+      target_id: Type.Optional(
+        Type.String({ description: "Target entity ID (for 'path'; the entity kept for 'merge')" }),
+      ),
+      name: Type.Optional(
+        Type.String({ description: "New name (for 'rename') or alias (for 'alias')" }),
+      ),
+      entity_ids: Type.Optional(
+        Type.Array(Type.String(), { description: "Entity IDs (for 'subgraph' action)" }),
+      ),
+      depth: Type.Optional(
+        Type.Number({
+          description: `Max hops (for 'neighbors', 'path' and 'subgraph'; default ${DEFAULT_DEPTH} for neighbors and ${MAX_DEPTH} for path, max ${MAX_DEPTH}). For 'subgraph', expands each entity this many hops first.`,
+          minimum: 0,
+          maximum: MAX_DEPTH,
+        }),
+      ),
+      predicates: Type.Optional(
+        Type.Array(Type.String(), {
+          description: "Only follow these relationship predicates (for 'neighbors', 'path' and 'subgraph')",
+        }),
+      ),
+      as_of: Type.Optional(
+        Type.String({
+          description: "ISO date: show the graph as it was then (for 'profile', 'neighbors', 'path' and 'subgraph')",
+        }),
+      ),
+      entity_types: Type.Optional(
+        Type.Array(Type.String(), {
+          description: "Only traverse through entities of these types (for 'neighbors' and 'path')",
+        }),
       ),
       entity_type: Type.Optional(
         Type.String({
@@ -53,31 +127,68 @@ export function createMemoryGraph(client: MaasvClient) {
           description: "Object value string if not linking to an entity (for 'add_relationship')",
         }),
       ),
+      relationship_id: Type.Optional(
+        Type.String({ description: "Relationship ID (for 'end_relationship')" }),
+      ),
+      valid_to: Type.Optional(
+        Type.String({ description: "ISO date the relationship ended; defaults to now (for 'end_relationship')" }),
+      ),
     }),
     async execute(
       _id: string,
       params: {
-        action: "search" | "profile" | "add_relationship";
+        action:
+          | "search"
+          | "profile"
+          | "neighbors"
+          | "path"
+          | "subgraph"
+          | "timeline"
+          | "add_relationship"
+          | "end_relationship"
+          | "duplicates"
+          | "merge"
+          | "alias"
+          | "rename"
+          | "delete_entity";
         query?: string;
         entity_id?: string;
+        target_id?: string;
+        name?: string;
+        entity_ids?: string[];
+        depth?: number;
+        predicates?: string[];
+        as_of?: string;
+        entity_types?: string[];
         entity_type?: string;
         subject_id?: string;
         predicate?: string;
         object_id?: string;
         object_value?: string;
+        relationship_id?: string;
+        valid_to?: string;
       },
     ) {
+      const asOf = params.as_of ? parseDate(params.as_of) : undefined;
+      if (asOf === null) {
+        return {
+          content: [{ type: "text" as const, text: `Error: 'as_of' is not a valid date: ${params.as_of}` }],
+        };
+      }
+      const asOfNote = asOf ? ` (as of ${asOf.slice(0, 10)})` : "";
+
       switch (params.action) {
         case "search": {
           if (!params.query) {
             return { content: [{ type: "text" as const, text: "Error: 'query' required for search action" }] };
           }
-          const { results, count } = await client.searchEntities(
+          const { results, count, fallback } = await client.searchEntities(
             params.query,
             params.entity_type,
           );
+          const note = fallback ? `${FALLBACK_NOTE}\n` : "";
           if (count === 0) {
-            return { content: [{ type: "text" as const, text: "No entities found." }] };
+            return { content: [{ type: "text" as const, text: `${note}No entities found.` }] };
           }
           const formatted = results
             .map(
@@ -87,7 +198,7 @@ export function createMemoryGraph(client: MaasvClient) {
             .join("\n");
           return {
             content: [
-              { type: "text" as const, text: `Found ${count} entities:\n${formatted}` },
+              { type: "text" as const, text: `${note}Found ${count} entities:\n${formatted}` },
             ],
           };
         }
@@ -98,12 +209,15 @@ export function createMemoryGraph(client: MaasvClient) {
               content: [{ type: "text" as const, text: "Error: 'entity_id' required for profile action" }],
             };
           }
-          const profile = await client.getEntityProfile(params.entity_id);
-          const lines = [`# ${profile.entity.name} (${profile.entity.entity_type})`];
+          const profile = asOf
+            ? await new GraphWalker(client, { asOf }).profile(params.entity_id)
+            : await client.getEntityProfile(params.entity_id);
+          const lines = [`# ${profile.entity.name} (${profile.entity.entity_type})${asOfNote}`];
+          if (profile.fallback) lines.unshift(FALLBACK_NOTE);
           for (const [pred, rels] of Object.entries(profile.relationships)) {
             for (const rel of rels) {
               const target = rel.object_name ?? rel.object_value ?? rel.object_id;
-              lines.push(`- ${pred}: ${target}`);
+              lines.push(`- ${pred}: ${target} (${formatValidity(rel, asOf)}) [${rel.id}]`);
             }
           }
           return {
@@ -111,6 +225,93 @@ export function createMemoryGraph(client: MaasvClient) {
           };
         }
 
+        case "neighbors": {
+          if (!params.entity_id) {
+            return {
+              content: [{ type: "text" as const, text: "Error: 'entity_id' required for neighbors action" }],
+            };
+          }
+          const walker = new GraphWalker(client, { asOf });
+          const depth = clampDepth(params.depth, DEFAULT_DEPTH);
+          const graph = await walker.neighbors(params.entity_id, depth, filtersOf(params));
+          return {
+            content: [
+              { type: "text" as const, text: formatNeighbors(params.entity_id, graph, walker) + asOfNote },
+            ],
+          };
+        }
+
+        case "path": {
+          if (!params.entity_id || !params.target_id) {
+            return {
+              content: [
+                { type: "text" as const, text: "Error: 'entity_id' and 'target_id' required for path action" },
+              ],
+            };
+          }
+          const walker = new GraphWalker(client, { asOf });
+          const depth = clampDepth(params.depth, MAX_DEPTH);
+          const paths = await walker.paths(params.entity_id, params.target_id, depth, filtersOf(params));
+          if (paths.length === 0) {
+            return {
+              content: [
+                { type: "text" as const, text: `No connection found within ${depth} hops${asOfNote}.` },
+              ],
+            };
+          }
+          const hops = paths[0].length;
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Shortest connection${asOfNote}: ${hops} hop${hops === 1 ? "" : "s"}\n${formatPaths(paths, walker)}`,
+              },
+            ],
+          };
+        }
+
+        case "subgraph": {
+          if (!params.entity_ids?.length) {
+            return {
+              content: [{ type: "text" as const, text: "Error: 'entity_ids' required for subgraph action" }],
+            };
+          }
+          const walker = new GraphWalker(client, { asOf });
+          const filters = filtersOf(params);
+          const depth = clampDepth(params.depth, 0);
+          let ids = params.entity_ids;
+          if (depth > 0) {
+            const around = new Set(ids);
+            for (const id of params.entity_ids) {
+              const hood = await walker.neighbors(id, depth, filters);
+              for (const node of hood.nodes.keys()) around.add(node);
+            }
+            ids = [...around];
+          }
+          const graph = await walker.subgraph(ids, filters);
+          return {
+            content: [{ type: "text" as const, text: formatSubgraph(graph, walker) + asOfNote }],
+          };
+        }
+
+        case "timeline": {
+          if (!params.entity_id) {
+            return {
+              content: [{ type: "text" as const, text: "Error: 'entity_id' required for timeline action" }],
+            };
+          }
+          const walker = new GraphWalker(client);
+          const events = await walker.timeline(params.entity_id);
+          const entity = walker.entity(params.entity_id);
+          if (events.length === 0) {
+            return { content: [{ type: "text" as const, text: "No relationship history." }] };
+          }
+          const title = entity ? `# ${entity.name} (${entity.entity_type}) timeline` : "# Timeline";
+          return {
+            content: [{ type: "text" as const, text: `${title}\n${formatTimeline(events, walker)}` }],
+          };
+        }
+
         case "add_relationship": {
           if (!params.subject_id || !params.predicate) {
             return {
@@ -132,12 +333,27 @@ export function createMemoryGraph(client: MaasvClient) {
               ],
             };
           }
-          const result = await client.addRelationship({
+          const req: RelationshipRequest = {
             subject_id: params.subject_id,
             predicate: params.predicate,
             object_id: params.object_id,
             object_value: params.object_value,
-          });
+          };
+          let result: { relationship_id: string };
+          try {
+            result = await client.addRelationship(req);
+          } catch (err) {
+            if (!queue || !isUnavailableError(err)) throw err;
+            const { item } = queue.enqueue({ op: "relationship", payload: req }, client.currentNamespace);
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: `maasv-server is unavailable; queued relationship for replay (${item.id}).`,
+                },
+              ],
+            };
+          }
           return {
             content: [
               {
@@ -147,7 +363,128 @@ export function createMemoryGraph(client: MaasvClient) {
             ],
           };
         }
+
+        case "end_relationship": {
+          if (!params.relationship_id) {
+            return {
+              content: [
+                { type: "text" as const, text: "Error: 'relationship_id' required for end_relationship" },
+              ],
+            };
+          }
+          const validTo = params.valid_to ? parseDate(params.valid_to) : undefined;
+          if (validTo === null) {
+            return {
+              content: [{ type: "text" as const, text: `Error: 'valid_to' is not a valid date: ${params.valid_to}` }],
+            };
+          }
+          const result = await client.endRelationship(params.relationship_id, validTo);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Ended relationship ${result.relationship_id} (valid until ${result.valid_to.slice(0, 10)})`,
+              },
+            ],
+          };
+        }
+
+        case "duplicates": {
+          const candidates = await findDuplicateCandidates(client, {
+            entityType: params.entity_type,
+            limit: 10,
+            minScore: 0.6,
+          });
+          return {
+            content: [{ type: "text" as const, text: formatCandidates(candidates) }],
+          };
+        }
+
+        case "merge": {
+          if (!params.entity_id || !params.target_id) {
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: "Error: 'entity_id' (merged away) and 'target_id' (kept) required for merge",
+                },
+              ],
+            };
+          }
+          const plan = await planMerge(client, params.entity_id, params.target_id);
+          const record = await executeMerge(client, plan, merges);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `${formatMergePlan(plan)}\nDone (merge ${record.id}; reversible with 'openclaw maasv graph unmerge ${record.id}').`,
+              },
+            ],
+          };
+        }
+
+        case "alias": {
+          if (!params.entity_id || !params.name) {
+            return {
+              content: [{ type: "text" as const, text: "Error: 'entity_id' and 'name' required for alias" }],
+            };
+          }
+          const entity = await client.addEntityAlias(params.entity_id, params.name);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `${entity.name} [${entity.id}] aliases: ${(entity.aliases ?? [params.name]).join(", ")}`,
+              },
+            ],
+          };
+        }
+
+        case "rename": {
+          if (!params.entity_id || !params.name) {
+            return {
+              content: [{ type: "text" as const, text: "Error: 'entity_id' and 'name' required for rename" }],
+            };
+          }
+          const entity = await client.renameEntity(params.entity_id, params.name);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Renamed ${entity.id} to ${entity.name} (old name kept as an alias)`,
+              },
+            ],
+          };
+        }
+
+        case "delete_entity": {
+          if (!params.entity_id) {
+            return {
+              content: [{ type: "text" as const, text: "Error: 'entity_id' required for delete_entity" }],
+            };
+          }
+          const result = await client.deleteEntity(params.entity_id);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: result.deleted
+                  ? `Deleted ${result.entity_id} and ${result.relationships_removed} relationship(s).`
+                  : `Entity ${result.entity_id} not found.`,
+              },
+            ],
+          };
+        }
       }
     },
   };
 }
+
+function clampDepth(depth: number | undefined, fallback: number): number {
+  if (depth === undefined || !Number.isFinite(depth)) return fallback;
+  return Math.max(0, Math.min(MAX_DEPTH, Math.floor(depth)));
+}
+
+function filtersOf(params: { predicates?: string[]; entity_types?: string[] }): TraversalFilters {
+  return { predicates: params.predicates, entityTypes: params.entity_types };
+}
@@ -0,0 +1,50 @@
+/**
+ * memory_history tool — show how a fact changed over time.
+ *
+ * Walks the supersede chain for a memory and lists every version,
+ * oldest first, with the current one marked.
+ */
+
+import { Type } from "@sinclair/typebox";
+import type { MaasvClient } from "../client.js";
+import type { MemoryHistory } from "../types.js";
+
+export function createMemoryHistory(client: MaasvClient) {
+  return {
+    name: "memory_history",
+    description:
+      "Show the version history of a memory — every superseded version and the current one, oldest first. Accepts the ID of any version in the chain.",
+    parameters: Type.Object({
+      id: Type.String({ description: "ID of any version of the memory" }),
+    }),
+    async execute(_id: string, params: { id: string }) {
+      try {
+        const history = await client.getMemoryHistory(params.id);
+        return {
+          content: [{ type: "text" as const, text: formatHistory(history) }],
+        };
+      } catch (err) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to load history for ${params.id}: ${(err as Error).message}`,
+            },
+          ],
+        };
+      }
+    },
+  };
+}
+
+export function formatHistory(history: MemoryHistory): string {
+  if (history.versions.length === 0) {
+    return `No history found for ${history.memory_id}.`;
+  }
+  const lines = [`${history.versions.length} version(s) of ${history.memory_id}:`];
+  history.versions.forEach((m, i) => {
+    const status = m.superseded_by ? `superseded by ${m.superseded_by}` : "current";
+    lines.push(`${i + 1}. [${m.created_at}] ${m.content}\n   id: ${m.id} | ${status}`);
+  });
+  return lines.join("\n");
+}
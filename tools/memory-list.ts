@@ -0,0 +1,85 @@
+/**
+ * memory_list tool — browse stored memories without a search query.
+ *
+ * Filters by category, subject, source, confidence range and date ranges,
+ * sorted by recency, importance or access count, one page at a time.
+ */
+
+import { Type } from "@sinclair/typebox";
+import type { MaasvClient } from "../client.js";
+import type { ListRequest, Memory } from "../types.js";
+
+export function createMemoryList(client: MaasvClient) {
+  return {
+    name: "memory_list",
+    description:
+      "List stored memories page by page, with filters (category, subject, source, confidence range, created/updated date range) and sorting (recency, importance, access_count). Use for auditing what has been remembered; use memory_search for relevance-ranked lookup.",
+    parameters: Type.Object({
+      category: Type.Optional(Type.String({ description: "Filter by category" })),
+      subject: Type.Optional(Type.String({ description: "Filter by subject" })),
+      source: Type.Optional(
+        Type.String({ description: "Filter by source (e.g. openclaw, extraction)" }),
+      ),
+      min_confidence: Type.Optional(
+        Type.Number({ description: "Minimum confidence (0.0-1.0)", minimum: 0, maximum: 1 }),
+      ),
+      max_confidence: Type.Optional(
+        Type.Number({ description: "Maximum confidence (0.0-1.0)", minimum: 0, maximum: 1 }),
+      ),
+      created_after: Type.Optional(
+        Type.String({ description: "Only memories created on/after this ISO date" }),
+      ),
+      created_before: Type.Optional(
+        Type.String({ description: "Only memories created on/before this ISO date" }),
+      ),
+      updated_after: Type.Optional(
+        Type.String({ description: "Only memories updated on/after this ISO date" }),
+      ),
+      updated_before: Type.Optional(
+        Type.String({ description: "Only memories updated on/before this ISO date" }),
+      ),
+      sort: Type.Optional(
+        Type.Union(
+          [Type.Literal("recency"), Type.Literal("importance"), Type.Literal("access_count")],
+          { description: "Sort order (default: recency)" },
+        ),
+      ),
+      limit: Type.Optional(
+        Type.Number({ description: "Page size", minimum: 1, maximum: 100, default: 20 }),
+      ),
+      offset: Type.Optional(
+        Type.Number({ description: "Number of memories to skip", minimum: 0, default: 0 }),
+      ),
+    }),
+    async execute(_id: string, params: ListRequest) {
+      const req: ListRequest = {
+        ...params,
+        sort: params.sort ?? "recency",
+        limit: params.limit ?? 20,
+        offset: params.offset ?? 0,
+      };
+      const { results, total } = await client.listMemories(req);
+
+      if (results.length === 0) {
+        return { content: [{ type: "text" as const, text: "No memories found." }] };
+      }
+
+      return {
+        content: [{ type: "text" as const, text: formatMemoryPage(results, total, req) }],
+      };
+    },
+  };
+}
+
+export function formatMemoryPage(results: Memory[], total: number, req: ListRequest): string {
+  const offset = req.offset ?? 0;
+  const formatted = results
+    .map((m, i) => {
+      const subject = m.subject ? `[${m.subject}] ` : "";
+      return `${offset + i + 1}. ${subject}${m.content}\n   id: ${m.id} | category: ${m.category} | confidence: ${m.confidence} | accessed: ${m.access_count} | updated: ${m.updated_at}`;
+    })
+    .join("\n\n");
+  const end = offset + results.length;
+  const more = end < total ? `\n\nMore available: use offset ${end}.` : "";
+  return `Showing ${offset + 1}-${end} of ${total} memories:\n\n${formatted}${more}`;
+}
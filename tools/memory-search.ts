@@ -8,6 +8,7 @@
 
 import { Type } from "@sinclair/typebox";
 import type { MaasvClient } from "../client.js";
+import { FALLBACK_NOTE } from "../fallback.js";
 
 export function createMemorySearch(client: MaasvClient) {
   return {
@@ -37,15 +38,16 @@ export function createMemorySearch(client: MaasvClient) {
       ),
     }),
     async execute(_id: string, params: { query: string; limit?: number; category?: string; subject?: string }) {
-      const { results, count } = await client.searchMemories({
+      const { results, count, fallback } = await client.searchMemories({
         query: params.query,
         limit: params.limit ?? 5,
         category: params.category,
         subject: params.subject,
       });
 
+      const note = fallback ? `${FALLBACK_NOTE}\n` : "";
       if (count === 0) {
-        return { content: [{ type: "text" as const, text: "No memories found." }] };
+        return { content: [{ type: "text" as const, text: `${note}No memories found.` }] };
       }
 
       const formatted = results
@@ -57,7 +59,7 @@ export function createMemorySearch(client: MaasvClient) {
         .join("\n\n");
 
       return {
-        content: [{ type: "text" as const, text: `Found ${count} memories:\n\n${formatted}` }],
+        content: [{ type: "text" as const, text: `${note}Found ${count} memories:\n\n${formatted}` }],
       };
     },
   };
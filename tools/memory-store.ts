@@ -3,12 +3,22 @@
  *
  * maasv checks for near-duplicate memories (cosine similarity > 0.95)
  * before storing. If a duplicate exists, returns the existing ID.
+ * Content passes through the redaction pipeline first. If maasv-server is
+ * unreachable, the write is queued in the local outbox.
  */
 
 import { Type } from "@sinclair/typebox";
-import type { MaasvClient } from "../client.js";
+import { isUnavailableError, type MaasvClient } from "../client.js";
+import type { WriteQueue } from "../outbox.js";
+import { formatCounts, logRedaction, type RedactionLogger, type Redactor } from "../redact.js";
+import type { StoreRequest } from "../types.js";
 
-export function createMemoryStore(client: MaasvClient) {
+export function createMemoryStore(
+  client: MaasvClient,
+  queue?: WriteQueue,
+  redactor?: Redactor,
+  logger?: RedactionLogger,
+) {
   return {
     name: "memory_store",
     description:
@@ -39,19 +49,56 @@ export function createMemoryStore(client: MaasvClient) {
       _id: string,
       params: { content: string; category: string; subject?: string; confidence?: number },
     ) {
-      const result = await client.storeMemory({
-        content: params.content,
+      const redacted = redactor?.redact(params.content);
+      const content = redacted ? redacted.text.trim() : params.content;
+      if (!content) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: "Not stored: the content consisted entirely of redacted secrets or personal data.",
+            },
+          ],
+        };
+      }
+      if (redacted) logRedaction(logger, redacted, "memory_store");
+      const note =
+        redacted && redacted.matches.length > 0
+          ? ` (redacted ${redacted.matches.length} item(s): ${formatCounts(redacted.counts)})`
+          : "";
+
+      const req: StoreRequest = {
+        content,
         category: params.category,
         subject: params.subject,
         confidence: params.confidence ?? 1.0,
         source: "openclaw",
-      });
+      };
+
+      let result: { memory_id: string };
+      try {
+        result = await client.storeMemory(req);
+      } catch (err) {
+        if (!queue || !isUnavailableError(err)) throw err;
+        // Server is down — park the write in the outbox instead of losing it
+        const { item, duplicate } = queue.enqueue({ op: "store", payload: req }, client.currentNamespace);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: duplicate
+                ? `maasv-server is unavailable; an identical memory is already queued (${item.id}).`
+                : `maasv-server is unavailable; queued memory for replay (${item.id}). It will be stored once the server is back.${note}`,
+            },
+          ],
+        };
+      }
 
       return {
         content: [
           {
             type: "text" as const,
-            text: `Stored memory: ${result.memory_id}`,
+            text: `Stored memory: ${result.memory_id}${note}`,
           },
         ],
       };
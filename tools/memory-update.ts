@@ -0,0 +1,63 @@
+/**
+ * memory_update tool — correct a memory by superseding it.
+ *
+ * The old version is kept (marked superseded) rather than deleted, so the
+ * temporal lineage of a fact survives and shows up in memory_history.
+ * New content passes through the redaction pipeline, as in memory_store.
+ */
+
+import { Type } from "@sinclair/typebox";
+import type { MaasvClient } from "../client.js";
+import { formatCounts, logRedaction, type RedactionLogger, type Redactor } from "../redact.js";
+
+export function createMemoryUpdate(client: MaasvClient, redactor?: Redactor, logger?: RedactionLogger) {
+  return {
+    name: "memory_update",
+    description:
+      "Correct or update a stored memory. Supersedes the old version with new content while keeping the old one in its version history. Prefer this over memory_forget + memory_store when a fact has changed.",
+    parameters: Type.Object({
+      id: Type.String({ description: "ID of the memory to update (e.g. mem_abc123def456)" }),
+      content: Type.String({ description: "The corrected fact, replacing the old content" }),
+    }),
+    async execute(_id: string, params: { id: string; content: string }) {
+      const redacted = redactor?.redact(params.content);
+      const content = redacted ? redacted.text.trim() : params.content;
+      if (!content) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: "Not updated: the content consisted entirely of redacted secrets or personal data.",
+            },
+          ],
+        };
+      }
+      if (redacted) logRedaction(logger, redacted, "memory_update");
+      const note =
+        redacted && redacted.matches.length > 0
+          ? ` (redacted ${redacted.matches.length} item(s): ${formatCounts(redacted.counts)})`
+          : "";
+
+      try {
+        const result = await client.supersedeMemory(params.id, content);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Updated memory ${params.id} → ${result.memory_id}${note}`,
+            },
+          ],
+        };
+      } catch (err) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to update memory ${params.id}: ${(err as Error).message}`,
+            },
+          ],
+        };
+      }
+    },
+  };
+}
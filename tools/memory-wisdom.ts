@@ -3,13 +3,19 @@
  *
  * Log reasoning before actions, record outcomes, attach feedback.
  * Over time, maasv learns which approaches work and which don't.
+ * Logged entries are tracked per session until they get an outcome.
  * No other OpenClaw memory plugin has this.
  */
 
 import { Type } from "@sinclair/typebox";
 import type { MaasvClient } from "../client.js";
+import { formatPending, type PendingOutcomes } from "../wisdom.js";
 
-export function createMemoryWisdom(client: MaasvClient) {
+export function createMemoryWisdom(
+  client: MaasvClient,
+  pending?: PendingOutcomes,
+  sessionKey?: string,
+) {
   return {
     name: "memory_wisdom",
     description:
@@ -21,10 +27,11 @@ export function createMemoryWisdom(client: MaasvClient) {
           Type.Literal("outcome"),
           Type.Literal("feedback"),
           Type.Literal("search"),
+          Type.Literal("pending"),
         ],
         {
           description:
-            "Action: 'log' reasoning, 'outcome' to record result, 'feedback' to rate, 'search' past wisdom",
+            "Action: 'log' reasoning, 'outcome' to record result, 'feedback' to rate, 'search' past wisdom, 'pending' to list logged entries still missing an outcome",
         },
       ),
       // For 'log'
@@ -44,6 +51,14 @@ export function createMemoryWisdom(client: MaasvClient) {
       context: Type.Optional(
         Type.String({ description: "Additional context (for 'log')" }),
       ),
+      tags: Type.Optional(
+        Type.Array(Type.String(), { description: "Tags for grouping and reports (for 'log')" }),
+      ),
+      action_data: Type.Optional(
+        Type.Record(Type.String(), Type.Unknown(), {
+          description: "Structured details of the action, e.g. command or parameters (for 'log')",
+        }),
+      ),
       // For 'outcome'
       wisdom_id: Type.Optional(
         Type.String({
@@ -77,11 +92,13 @@ export function createMemoryWisdom(client: MaasvClient) {
     async execute(
       _id: string,
       params: {
-        action: "log" | "outcome" | "feedback" | "search";
+        action: "log" | "outcome" | "feedback" | "search" | "pending";
         action_type?: string;
         reasoning?: string;
         trigger?: string;
         context?: string;
+        tags?: string[];
+        action_data?: Record<string, unknown>;
         wisdom_id?: string;
         outcome?: string;
         details?: string;
@@ -107,12 +124,20 @@ export function createMemoryWisdom(client: MaasvClient) {
             reasoning: params.reasoning,
             trigger: params.trigger,
             context: params.context,
+            tags: params.tags,
+            action_data: params.action_data,
+          });
+          pending?.add(sessionKey ?? "default", {
+            id: result.wisdom_id,
+            action_type: params.action_type,
+            reasoning: params.reasoning,
+            loggedAt: new Date().toISOString(),
           });
           return {
             content: [
               {
                 type: "text" as const,
-                text: `Logged reasoning: ${result.wisdom_id}`,
+                text: `Logged reasoning: ${result.wisdom_id}. Record its outcome once you know how it went.`,
               },
             ],
           };
@@ -134,6 +159,7 @@ export function createMemoryWisdom(client: MaasvClient) {
             params.outcome,
             params.details,
           );
+          pending?.resolve(params.wisdom_id);
           return {
             content: [
               { type: "text" as const, text: `Recorded outcome for ${params.wisdom_id}: ${params.outcome}` },
@@ -193,6 +219,23 @@ export function createMemoryWisdom(client: MaasvClient) {
             ],
           };
         }
+
+        case "pending": {
+          const open = pending?.list(sessionKey ?? "default") ?? [];
+          if (open.length === 0) {
+            return {
+              content: [{ type: "text" as const, text: "No wisdom entries are waiting for an outcome." }],
+            };
+          }
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `${open.length} entries need an outcome (use action 'outcome'):\n${formatPending(open)}`,
+              },
+            ],
+          };
+        }
       }
     },
   };
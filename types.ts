@@ -2,6 +2,10 @@
  * Shared types for the openclaw-maasv plugin.
  */
 
+import type { FallbackStatus } from "./fallback.js";
+import type { RedactionConfig } from "./redact.js";
+import type { TokenCounterKind } from "./tokens.js";
+
 export interface PluginConfig {
   serverUrl: string;
   apiKey?: string;
@@ -9,8 +13,49 @@ export interface PluginConfig {
   autoCapture: boolean;
   maxRecallResults: number;
   maxRecallTokens: number;
+  tokenCounter: TokenCounterKind;
+  recallFormat: "tiered" | "structured";
   enableGraph: boolean;
   enableWisdom: boolean;
+  requestTimeoutMs: number;
+  recallTimeoutMs: number;
+  extractTimeoutMs: number;
+  maxRetries: number;
+  breakerThreshold: number;
+  breakerCooldownMs: number;
+  stateDir?: string;
+  offlineQueue: boolean;
+  queueMaxItems: number;
+  queueFlushIntervalMs: number;
+  incrementalCapture: boolean;
+  captureOverlapTurns: number;
+  captureChunkTokens: number;
+  captureToolOutputs: boolean;
+  toolOutputMaxChars: number;
+  namespace?: string;
+  namespaceFrom: "config" | "agent" | "session";
+  namespaceMap: Record<string, string>;
+  sharedNamespace?: string;
+  redaction: RedactionConfig;
+  autoWisdom: boolean;
+  autoWisdomAllow: string[];
+  autoWisdomDeny: string[];
+  recallWisdom: boolean;
+  maxWisdomResults: number;
+  maxWisdomTokens: number;
+  wisdomReminders: boolean;
+  wisdomOutcomeTimeoutMs: number;
+  fallbackCache: boolean;
+  fallbackMaxMemories: number;
+  fallbackMaxProfiles: number;
+  recallCache: boolean;
+  recallCacheTtlMs: number;
+  recallCacheMaxEntries: number;
+  recallQueryTurns: number;
+  recallMinRelevance: number;
+  recallSkipTrivial: boolean;
+  recallDedup: boolean;
+  recallReinjectEveryTurns: number;
 }
 
 // --- Memory types ---
@@ -27,12 +72,20 @@ export interface Memory {
   created_at: string;
   updated_at: string;
   metadata: Record<string, unknown> | null;
+  /** Set once this memory has been replaced by a newer version. */
+  superseded_by?: string | null;
 }
 
 export interface ScoredMemory extends Memory {
   relevance?: number;
 }
 
+export interface MemoryHistory {
+  memory_id: string;
+  /** Every version in the supersede chain, oldest first. */
+  versions: Memory[];
+}
+
 export interface StoreRequest {
   content: string;
   category: string;
@@ -49,6 +102,24 @@ export interface SearchRequest {
   subject?: string;
 }
 
+export type MemorySort = "recency" | "importance" | "access_count";
+
+export interface ListRequest {
+  category?: string;
+  subject?: string;
+  source?: string;
+  min_confidence?: number;
+  max_confidence?: number;
+  /** ISO 8601 timestamps; bounds are inclusive. */
+  created_after?: string;
+  created_before?: string;
+  updated_after?: string;
+  updated_before?: string;
+  sort?: MemorySort;
+  limit?: number;
+  offset?: number;
+}
+
 export interface ContextRequest {
   query?: string;
   core_limit?: number;
@@ -65,6 +136,7 @@ export interface Entity {
   canonical_name: string;
   metadata: Record<string, unknown> | null;
   access_count: number;
+  aliases?: string[];
 }
 
 export interface Relationship {
@@ -80,10 +152,41 @@ export interface Relationship {
   object_name?: string;
 }
 
+export interface RelationshipRequest {
+  subject_id: string;
+  predicate: string;
+  object_id?: string;
+  object_value?: string;
+  confidence?: number;
+  source?: string;
+  /** ISO timestamps; the server defaults valid_from to now and valid_to to open. */
+  valid_from?: string;
+  valid_to?: string | null;
+}
+
+export interface EntityListRequest {
+  entity_type?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface RelationshipListRequest {
+  subject_id?: string;
+  predicate?: string;
+  /** Include relationships whose valid_to has passed. */
+  include_ended?: boolean;
+  valid_from_after?: string;
+  valid_from_before?: string;
+  limit?: number;
+  offset?: number;
+}
+
 export interface EntityProfile {
   entity: Entity;
   relationships: Record<string, Relationship[]>;
   related_entities: Entity[];
+  /** Set by the client when served from the local fallback store. */
+  fallback?: boolean;
 }
 
 // --- Wisdom types ---
@@ -98,6 +201,17 @@ export interface WisdomEntry {
   feedback_notes: string | null;
   timestamp: string;
   tags: string[] | null;
+  action_data?: Record<string, unknown> | null;
+  trigger?: string | null;
+  context?: string | null;
+}
+
+export interface WisdomListRequest {
+  action_type?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+  offset?: number;
 }
 
 // --- Extraction types ---
@@ -114,7 +228,12 @@ export interface ExtractionResult {
 // --- Health types ---
 
 export interface HealthResponse {
-  status: "healthy" | "unhealthy";
+  status: "healthy" | "unhealthy" | "degraded";
+  /** Set by the client: "degraded" while reads come from the local fallback store. */
+  mode?: "connected" | "degraded";
+  /** Why the server is unreachable, when degraded. */
+  error?: string;
+  fallback?: FallbackStatus;
 }
 
 export interface StatsResponse {
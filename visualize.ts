@@ -0,0 +1,255 @@
+/**
+ * Knowledge graph export for visualization: Graphviz DOT, Mermaid, GraphML
+ * and plain JSON (for dashboards, via the maasv.graph gateway method).
+ *
+ * The graph is either the neighborhood of a root entity (walked through
+ * GraphWalker) or every entity and relationship, optionally filtered by
+ * entity type and predicate. Literal object values ("lives_in" → "Berlin")
+ * become value nodes. Ended relationships are only included on request and
+ * are drawn dashed; confidence becomes the edge weight.
+ */
+
+import { createHash } from "node:crypto";
+import { paginate } from "./bundle.js";
+import type { MaasvClient } from "./client.js";
+import { GraphWalker } from "./graph.js";
+import type { Entity, Relationship } from "./types.js";
+
+export type VisualFormat = "dot" | "mermaid" | "graphml" | "json";
+
+export const VISUAL_FORMATS: VisualFormat[] = ["dot", "mermaid", "graphml", "json"];
+
+export interface VisualOptions {
+  /** Start from this entity; without it the whole graph is exported. */
+  root?: string;
+  depth: number;
+  entityTypes?: string[];
+  predicates?: string[];
+  includeEnded: boolean;
+  maxNodes: number;
+  maxEdges: number;
+}
+
+export interface VisualNode {
+  id: string;
+  label: string;
+  /** Entity type, or "value" for a literal object value. */
+  type: string;
+}
+
+export interface VisualEdge {
+  id: string;
+  source: string;
+  target: string;
+  predicate: string;
+  weight: number;
+  ended: boolean;
+  valid_from: string;
+  valid_to: string | null;
+}
+
+export interface VisualGraph {
+  root: string | null;
+  nodes: VisualNode[];
+  edges: VisualEdge[];
+  truncated: boolean;
+}
+
+const PAGE_SIZE = 200;
+
+export async function collectGraph(client: MaasvClient, opts: VisualOptions): Promise<VisualGraph> {
+  const entities = new Map<string, Entity>();
+  let relationships: Relationship[];
+  let truncated = false;
+
+  if (opts.root) {
+    const walker = new GraphWalker(client, {
+      includeEnded: opts.includeEnded,
+      limits: { maxNodes: opts.maxNodes, maxEdges: opts.maxEdges },
+    });
+    const sub = await walker.neighbors(opts.root, opts.depth, {
+      predicates: opts.predicates,
+      entityTypes: opts.entityTypes,
+    });
+    for (const [id, { entity }] of sub.nodes) {
+      const e = entity ?? walker.entity(id);
+      if (e) entities.set(id, e);
+    }
+    relationships = sub.edges;
+    truncated = sub.truncated;
+  } else {
+    for (const type of opts.entityTypes ?? [undefined]) {
+      for await (const e of paginate((offset) =>
+        client.listEntities({ entity_type: type, limit: PAGE_SIZE, offset }),
+      )) {
+        if (entities.size >= opts.maxNodes) {
+          truncated = true;
+          break;
+        }
+        entities.set(e.id, e);
+      }
+    }
+    relationships = [];
+    for (const predicate of opts.predicates ?? [undefined]) {
+      for await (const r of paginate((offset) =>
+        client.listRelationships({ predicate, include_ended: opts.includeEnded, limit: PAGE_SIZE, offset }),
+      )) {
+        if (relationships.length >= opts.maxEdges) {
+          truncated = true;
+          break;
+        }
+        relationships.push(r);
+      }
+    }
+  }
+
+  const now = Date.now();
+  const graph: VisualGraph = { root: opts.root ?? null, nodes: [], edges: [], truncated };
+  const seen = new Set<string>();
+  const addNode = (node: VisualNode) => {
+    if (!seen.has(node.id)) {
+      seen.add(node.id);
+      graph.nodes.push(node);
+    }
+  };
+  for (const e of entities.values()) addNode({ id: e.id, label: e.name, type: e.entity_type });
+
+  for (const rel of relationships) {
+    const ended = !!rel.valid_to && Date.parse(rel.valid_to) <= now;
+    if (ended && !opts.includeEnded) continue;
+    // Drop edges whose entity endpoints were filtered out
+    if (!entities.has(rel.subject_id)) continue;
+    let target: string;
+    if (rel.object_id) {
+      if (!entities.has(rel.object_id)) continue;
+      target = rel.object_id;
+    } else {
+      target = valueNodeId(rel.object_value ?? "");
+      addNode({ id: target, label: rel.object_value ?? "", type: "value" });
+    }
+    graph.edges.push({
+      id: rel.id,
+      source: rel.subject_id,
+      target,
+      predicate: rel.predicate,
+      weight: rel.confidence,
+      ended,
+      valid_from: rel.valid_from,
+      valid_to: rel.valid_to,
+    });
+  }
+  return graph;
+}
+
+export function renderGraph(graph: VisualGraph, format: VisualFormat): string {
+  switch (format) {
+    case "dot":
+      return toDot(graph);
+    case "mermaid":
+      return toMermaid(graph);
+    case "graphml":
+      return toGraphML(graph);
+    case "json":
+      return JSON.stringify(graph, null, 2);
+  }
+}
+
+// --- Renderers ---
+
+function toDot(graph: VisualGraph): string {
+  const lines = [
+    "digraph maasv {",
+    "  rankdir=LR;",
+    '  node [shape=box, style="rounded"];',
+  ];
+  for (const n of graph.nodes) {
+    const attrs = [`label=${dotString(n.type === "value" ? n.label : `${n.label}\n(${n.type})`)}`];
+    if (n.type === "value") attrs.push("shape=note");
+    if (n.id === graph.root) attrs.push("penwidth=2");
+    lines.push(`  ${dotString(n.id)} [${attrs.join(", ")}];`);
+  }
+  for (const e of graph.edges) {
+    const attrs = [
+      `label=${dotString(`${e.predicate} (${e.weight.toFixed(2)})`)}`,
+      `weight=${Math.max(1, Math.round(e.weight * 10))}`,
+      `penwidth=${(0.5 + 2 * e.weight).toFixed(2)}`,
+    ];
+    if (e.ended) attrs.push('style="dashed"', 'color="gray50"', 'fontcolor="gray50"');
+    lines.push(`  ${dotString(e.source)} -> ${dotString(e.target)} [${attrs.join(", ")}];`);
+  }
+  lines.push("}");
+  return lines.join("\n");
+}
+
+function toMermaid(graph: VisualGraph): string {
+  // Mermaid IDs must be simple identifiers
+  const ids = new Map(graph.nodes.map((n, i) => [n.id, `n${i}`]));
+  const lines = ["graph LR"];
+  for (const n of graph.nodes) {
+    const text = mermaidString(n.type === "value" ? n.label : `${n.label} (${n.type})`);
+    lines.push(n.type === "value" ? `  ${ids.get(n.id)}[/"${text}"/]` : `  ${ids.get(n.id)}["${text}"]`);
+  }
+  const ended: number[] = [];
+  graph.edges.forEach((e, i) => {
+    const label = mermaidString(`${e.predicate} ${e.weight.toFixed(2)}`);
+    const arrow = e.ended ? "-.->" : "-->";
+    lines.push(`  ${ids.get(e.source)} ${arrow}|"${label}"| ${ids.get(e.target)}`);
+    if (e.ended) ended.push(i);
+  });
+  if (ended.length) lines.push(`  linkStyle ${ended.join(",")} stroke:#999,color:#999`);
+  return lines.join("\n");
+}
+
+function toGraphML(graph: VisualGraph): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="type" for="node" attr.name="type" attr.type="string"/>',
+    '  <key id="predicate" for="edge" attr.name="predicate" attr.type="string"/>',
+    '  <key id="weight" for="edge" attr.name="weight" attr.type="double"/>',
+    '  <key id="ended" for="edge" attr.name="ended" attr.type="boolean"/>',
+    '  <key id="valid_from" for="edge" attr.name="valid_from" attr.type="string"/>',
+    '  <key id="valid_to" for="edge" attr.name="valid_to" attr.type="string"/>',
+    '  <graph id="maasv" edgedefault="directed">',
+  ];
+  for (const n of graph.nodes) {
+    lines.push(
+      `    <node id="${xml(n.id)}"><data key="label">${xml(n.label)}</data><data key="type">${xml(n.type)}</data></node>`,
+    );
+  }
+  for (const e of graph.edges) {
+    const data = [
+      `<data key="predicate">${xml(e.predicate)}</data>`,
+      `<data key="weight">${e.weight}</data>`,
+      `<data key="ended">${e.ended}</data>`,
+      `<data key="valid_from">${xml(e.valid_from)}</data>`,
+      e.valid_to ? `<data key="valid_to">${xml(e.valid_to)}</data>` : "",
+    ].join("");
+    lines.push(`    <edge id="${xml(e.id)}" source="${xml(e.source)}" target="${xml(e.target)}">${data}</edge>`);
+  }
+  lines.push("  </graph>", "</graphml>");
+  return lines.join("\n");
+}
+
+// --- Helpers ---
+
+function valueNodeId(value: string): string {
+  return `value:${createHash("sha256").update(value).digest("hex").slice(0, 12)}`;
+}
+
+function dotString(s: string): string {
+  return `"${s.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+}
+
+function mermaidString(s: string): string {
+  return s.replace(/"/g, "#quot;").replace(/</g, "#lt;").replace(/>/g, "#gt;").replace(/\n/g, " ");
+}
+
+function xml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,298 @@
+/**
+ * Wisdom bookkeeping around the agent loop.
+ *
+ * - Automatic logging: when enabled, before_tool_call logs a reasoning entry
+ *   for each tracked tool (action_type = tool name, action_data = sanitized
+ *   arguments) and after_tool_call records success / failed / partial from
+ *   the result or error. Neither hook waits on maasv-server: the tool runs
+ *   immediately and the outcome is attached once the log call has returned
+ *   an ID.
+ * - Pending outcomes: entries the agent logs through memory_wisdom are
+ *   tracked per session until an outcome is recorded, so they can be listed,
+ *   reminded about, and eventually closed as "unknown".
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import type { MaasvClient } from "./client.js";
+import type { Redactor } from "./redact.js";
+import { writeFileAtomic } from "./state.js";
+
+export type ToolOutcome = "success" | "failed" | "partial";
+
+export interface ToolFilter {
+  /** Tool names or `*` patterns to track; empty means every tool. */
+  allow: string[];
+  /** Tool names or `*` patterns never tracked; wins over allow. */
+  deny: string[];
+}
+
+interface Logger {
+  warn(message: string): void;
+  debug?(message: string): void;
+}
+
+interface OpenCall {
+  key: string;
+  wisdomId: Promise<string | null>;
+  client: MaasvClient;
+}
+
+// Calls whose after_tool_call never arrives shouldn't pile up forever
+const MAX_OPEN_CALLS = 200;
+const DETAILS_MAX_CHARS = 300;
+const SECRET_KEY = /pass(word|phrase)?|secret|token|api[_-]?key|auth(orization)?|credential|cookie|private[_-]?key/i;
+
+export function matchesTool(name: string, filter: ToolFilter): boolean {
+  const hit = (patterns: string[]) => patterns.some((p) => globToRegExp(p).test(name));
+  if (hit(filter.deny)) return false;
+  return filter.allow.length === 0 || hit(filter.allow);
+}
+
+/**
+ * Copy of tool arguments safe to store: secret-looking keys are masked,
+ * strings go through the redactor and are truncated, nesting is bounded.
+ */
+export function sanitizeArgs(
+  args: unknown,
+  redactor: Redactor,
+  maxChars: number,
+): Record<string, unknown> {
+  const clean = (value: unknown, depth: number): unknown => {
+    if (typeof value === "string") {
+      const text = redactor.enabled ? redactor.redact(value).text : value;
+      return text.length > maxChars ? `${text.slice(0, maxChars)}…` : text;
+    }
+    if (value === null || typeof value !== "object") return value;
+    if (depth >= 4) return "[…]";
+    if (Array.isArray(value)) {
+      const items = value.slice(0, 20).map((v) => clean(v, depth + 1));
+      return value.length > 20 ? [...items, `[+${value.length - 20} more]`] : items;
+    }
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value)) {
+      out[k] = SECRET_KEY.test(k) && v != null ? "[redacted]" : clean(v, depth + 1);
+    }
+    return out;
+  };
+  const result = clean(args ?? {}, 0);
+  return result && typeof result === "object" && !Array.isArray(result)
+    ? (result as Record<string, unknown>)
+    : { value: result };
+}
+
+/** Map a tool result (or thrown error) to a wisdom outcome. */
+export function classifyResult(result: unknown, error: unknown): { outcome: ToolOutcome; details?: string } {
+  if (error) {
+    const message = typeof error === "string" ? error : ((error as Error).message ?? String(error));
+    return { outcome: "failed", details: clip(message) };
+  }
+  const r = result as any;
+  const text = resultText(r);
+  if (r?.isError === true || r?.is_error === true || /^\s*error\b/i.test(text)) {
+    return { outcome: "failed", details: clip(text) || undefined };
+  }
+  if (r?.details?.partial === true || /\b(partial(ly)?|some .{0,40} failed|with (errors|warnings))\b/i.test(text)) {
+    return { outcome: "partial", details: clip(text) || undefined };
+  }
+  return { outcome: "success" };
+}
+
+export class ToolCallTracker {
+  private open: OpenCall[] = [];
+
+  constructor(
+    private filter: ToolFilter,
+    private redactor: Redactor,
+    private maxArgChars: number,
+    private logger: Logger,
+  ) {}
+
+  /** before_tool_call: log reasoning in the background and remember the call. */
+  before(client: MaasvClient, event: any, ctx: any): void {
+    const toolName = toolNameOf(event, ctx);
+    if (!toolName || !matchesTool(toolName, this.filter)) return;
+
+    const actionData = sanitizeArgs(event?.params ?? event?.args, this.redactor, this.maxArgChars);
+    const wisdomId = client
+      .logReasoning({
+        action_type: toolName,
+        reasoning: `Called ${toolName} with ${summarize(actionData)}`,
+        action_data: actionData,
+        trigger: "auto:tool_call",
+        context: ctx?.sessionKey ?? undefined,
+        tags: ["auto", `tool:${toolName}`],
+      })
+      .then(
+        (r) => r.wisdom_id,
+        (err) => {
+          this.logger.debug?.(`memory-maasv: auto-wisdom log for ${toolName} failed: ${(err as Error).message}`);
+          return null;
+        },
+      );
+
+    this.open.push({ key: callKey(event, ctx, toolName), wisdomId, client });
+    if (this.open.length > MAX_OPEN_CALLS) this.open.shift();
+  }
+
+  /** after_tool_call: record the outcome once the matching log has an ID. */
+  after(event: any, ctx: any): void {
+    const toolName = toolNameOf(event, ctx);
+    if (!toolName) return;
+    const key = callKey(event, ctx, toolName);
+    const index = this.open.findIndex((c) => c.key === key);
+    if (index < 0) return;
+    const [call] = this.open.splice(index, 1);
+
+    const { outcome, details } = classifyResult(event?.result, event?.error);
+    void call.wisdomId.then(async (id) => {
+      if (!id) return;
+      try {
+        await call.client.recordOutcome(id, outcome, details);
+      } catch (err) {
+        this.logger.debug?.(`memory-maasv: auto-wisdom outcome for ${toolName} failed: ${(err as Error).message}`);
+      }
+    });
+  }
+}
+
+export interface PendingEntry {
+  id: string;
+  action_type: string;
+  reasoning: string;
+  loggedAt: string;
+}
+
+interface PendingSession {
+  entries: PendingEntry[];
+  updatedAt: string;
+}
+
+const MAX_SESSIONS = 500;
+
+/** Wisdom entries without an outcome yet, per session, in the state dir. */
+export class PendingOutcomes {
+  readonly path: string;
+
+  constructor(stateDir: string) {
+    this.path = join(stateDir, "wisdom-pending.json");
+  }
+
+  add(sessionKey: string, entry: PendingEntry): void {
+    const sessions = this.load();
+    const session = sessions[sessionKey] ?? { entries: [], updatedAt: entry.loggedAt };
+    session.entries.push(entry);
+    session.updatedAt = entry.loggedAt;
+    sessions[sessionKey] = session;
+
+    // Forget the least recently active sessions past the cap
+    const keys = Object.keys(sessions);
+    if (keys.length > MAX_SESSIONS) {
+      keys
+        .sort((a, b) => sessions[a].updatedAt.localeCompare(sessions[b].updatedAt))
+        .slice(0, keys.length - MAX_SESSIONS)
+        .forEach((k) => delete sessions[k]);
+    }
+    this.save(sessions);
+  }
+
+  /** Stop tracking an entry once it has an outcome. Returns true if it was pending. */
+  resolve(id: string): boolean {
+    const sessions = this.load();
+    let found = false;
+    for (const [key, session] of Object.entries(sessions)) {
+      const kept = session.entries.filter((e) => e.id !== id);
+      if (kept.length === session.entries.length) continue;
+      found = true;
+      if (kept.length) session.entries = kept;
+      else delete sessions[key];
+    }
+    if (found) this.save(sessions);
+    return found;
+  }
+
+  /** Pending entries for one session, or every session when none is given. */
+  list(sessionKey?: string): Array<PendingEntry & { session: string }> {
+    const sessions = this.load();
+    const keys = sessionKey !== undefined ? [sessionKey] : Object.keys(sessions);
+    return keys.flatMap((key) => (sessions[key]?.entries ?? []).map((e) => ({ ...e, session: key })));
+  }
+
+  /**
+   * A session's entries logged more than `maxAgeMs` ago. They stay pending
+   * until resolved, so an entry whose outcome could not be recorded is tried
+   * again next time.
+   */
+  expired(sessionKey: string, maxAgeMs: number, now: Date = new Date()): PendingEntry[] {
+    const cutoff = now.getTime() - maxAgeMs;
+    return (this.load()[sessionKey]?.entries ?? []).filter((e) => Date.parse(e.loggedAt) <= cutoff);
+  }
+
+  private load(): Record<string, PendingSession> {
+    if (!existsSync(this.path)) return {};
+    try {
+      const data = JSON.parse(readFileSync(this.path, "utf8"));
+      return data.sessions ?? {};
+    } catch {
+      return {};
+    }
+  }
+
+  private save(sessions: Record<string, PendingSession>): void {
+    writeFileAtomic(this.path, JSON.stringify({ sessions }, null, 2));
+  }
+}
+
+/** Compact list of pending entries for reminders and the `pending` action. */
+export function formatPending(entries: PendingEntry[], now: Date = new Date()): string {
+  return entries
+    .map((e) => {
+      const hours = Math.floor((now.getTime() - Date.parse(e.loggedAt)) / 3_600_000);
+      const age = hours < 1 ? "<1h" : hours < 48 ? `${hours}h` : `${Math.floor(hours / 24)}d`;
+      return `- ${e.id} (${e.action_type}, ${age} ago): ${snippetOf(e.reasoning, 120)}`;
+    })
+    .join("\n");
+}
+
+// --- Helpers ---
+
+function snippetOf(s: string, max: number): string {
+  const flat = s.replace(/\s+/g, " ").trim();
+  return flat.length > max ? `${flat.slice(0, max)}…` : flat;
+}
+
+function toolNameOf(event: any, ctx: any): string | undefined {
+  return event?.toolName ?? event?.name ?? ctx?.toolName;
+}
+
+// Prefer the tool call ID; otherwise pair calls FIFO per session and tool
+function callKey(event: any, ctx: any, toolName: string): string {
+  const id = event?.toolCallId ?? event?.callId ?? ctx?.toolCallId;
+  return id ? `id:${id}` : `${ctx?.sessionKey ?? ""}:${toolName}`;
+}
+
+function resultText(result: any): string {
+  if (typeof result === "string") return result;
+  if (Array.isArray(result?.content)) {
+    return result.content
+      .map((b: any) => (typeof b?.text === "string" ? b.text : ""))
+      .filter(Boolean)
+      .join("\n");
+  }
+  return typeof result?.text === "string" ? result.text : "";
+}
+
+function summarize(data: Record<string, unknown>): string {
+  const json = JSON.stringify(data);
+  return json.length > 200 ? `${json.slice(0, 200)}…` : json;
+}
+
+function clip(s: string): string {
+  const flat = s.replace(/\s+/g, " ").trim();
+  return flat.length > DETAILS_MAX_CHARS ? `${flat.slice(0, DETAILS_MAX_CHARS)}…` : flat;
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+  return new RegExp(`^${escaped}$`);
+}